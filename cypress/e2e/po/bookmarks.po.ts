@@ -0,0 +1,30 @@
+import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+
+/**
+ * Page Object for the bookmarks section of the chat panel (Bookmarks.vue).
+ */
+export default class BookmarksPo extends ComponentPo {
+  constructor() {
+    super('[data-testid="rancher-ai-ui-chat-bookmarks"]');
+  }
+
+  toggle() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-bookmarks-toggle"]').click();
+  }
+
+  bookmark(messageId: string) {
+    return this.self().find(`[data-testid="rancher-ai-ui-chat-bookmark-${ messageId }"]`);
+  }
+
+  note(messageId: string) {
+    return this.bookmark(messageId).find('[data-testid="rancher-ai-ui-chat-bookmark-note"]');
+  }
+
+  open(messageId: string) {
+    return this.bookmark(messageId).find('[data-testid="rancher-ai-ui-chat-bookmark-open"]').click();
+  }
+
+  remove(messageId: string) {
+    return this.bookmark(messageId).find('[data-testid="rancher-ai-ui-chat-bookmark-remove"]').click();
+  }
+}
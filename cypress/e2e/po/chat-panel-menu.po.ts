@@ -1,4 +1,5 @@
 import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+import { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 
 /**
  * Page Object for the ⋮ chat panel menu (ChatPanelMenu.vue).
@@ -7,7 +8,7 @@ import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
  */
 export default class ChatPanelMenuPo extends ComponentPo {
   constructor() {
-    super('[data-testid="rancher-ai-ui-chat-container"]');
+    super(ACTIVE_CHAT_CONTAINER);
   }
 
   /** Click the ⋮ (icon-actions) menu trigger */
@@ -4,10 +4,16 @@ import { HeaderPo } from '@/cypress/e2e/po/header.po';
 import { ConsolePo } from '@/cypress/e2e/po/console.po';
 import ContextPo from '@/cypress/e2e/po/context.po';
 import MessagesPo from '@/cypress/e2e/po/messages.po';
+import BookmarksPo from '@/cypress/e2e/po/bookmarks.po';
+
+/**
+ * Container of the chat of the active tab, the chats of the other tabs stay mounted (hidden).
+ */
+export const ACTIVE_CHAT_CONTAINER = '.chat-tab.active > [data-testid^="rancher-ai-ui-chat-container-"]';
 
 export default class ChatPo extends ComponentPo {
   constructor() {
-    super('[data-testid="rancher-ai-ui-chat-container"]');
+    super(ACTIVE_CHAT_CONTAINER);
   }
 
   processingState(label?: string) {
@@ -30,6 +36,10 @@ export default class ChatPo extends ComponentPo {
     return new ContextPo();
   }
 
+  bookmarks() {
+    return new BookmarksPo();
+  }
+
   console() {
     return new ConsolePo();
   }
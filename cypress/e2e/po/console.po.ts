@@ -53,6 +53,10 @@ export class ConsolePo extends ComponentPo {
     return this.self().get('[data-testid="rancher-ai-ui-chat-console-llm-info"]');
   }
 
+  stopButton() {
+    return this.self().get('[data-testid="rancher-ai-ui-chat-input-stop"]');
+  }
+
   sendMessage(value: string) {
     this.textarea().type(value).type('{enter}');
   }
@@ -0,0 +1,35 @@
+import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+
+export default class DeleteChatsPromptPo extends ComponentPo {
+  constructor() {
+    super(cy.get('[data-testid="card"].prompt-remove'));
+  }
+
+  chatList() {
+    return this.self().getId('rancher-ai-ui-delete-chats-list');
+  }
+
+  daysInput() {
+    return this.self().getId('rancher-ai-ui-delete-chats-days-input');
+  }
+
+  results() {
+    return this.self().getId('rancher-ai-ui-delete-chats-results');
+  }
+
+  failures() {
+    return this.self().find('[data-testid="rancher-ai-ui-delete-chats-failure"]');
+  }
+
+  confirmButton() {
+    return this.self().getId('prompt-remove-confirm-button');
+  }
+
+  confirm() {
+    return this.confirmButton().click();
+  }
+
+  close() {
+    return this.self().find('.actions .btn.role-secondary').click();
+  }
+}
@@ -0,0 +1,23 @@
+import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+
+export default class ImportChatPromptPo extends ComponentPo {
+  constructor() {
+    super(cy.get('[data-testid="card"].prompt-import'));
+  }
+
+  summary() {
+    return this.self().getId('rancher-ai-ui-import-chat-summary');
+  }
+
+  error() {
+    return this.self().getId('rancher-ai-ui-import-chat-error');
+  }
+
+  openReadOnly() {
+    return this.self().getId('rancher-ai-ui-import-chat-read-only-button').click();
+  }
+
+  continueInNewChat() {
+    return this.self().getId('rancher-ai-ui-import-chat-new-chat-button').click();
+  }
+}
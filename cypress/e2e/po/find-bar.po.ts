@@ -0,0 +1,34 @@
+import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+
+/**
+ * Page Object for the in-chat find bar (FindBar.vue), shown on top of the messages.
+ */
+export default class FindBarPo extends ComponentPo {
+  constructor() {
+    super('[data-testid="rancher-ai-ui-chat-find-bar"]');
+  }
+
+  input() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-find-input"]');
+  }
+
+  count() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-find-count"]');
+  }
+
+  find(query: string) {
+    return this.input().clear().type(query);
+  }
+
+  next() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-find-next"]').click();
+  }
+
+  previous() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-find-previous"]').click();
+  }
+
+  close() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-find-close"]').click();
+  }
+}
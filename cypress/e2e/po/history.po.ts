@@ -56,6 +56,14 @@ export class HistoryChatItemPo extends ComponentPo {
     return cy.get('[data-testid="rancher-ai-ui-chat-history-item-name-input"]');
   }
 
+  folderInput() {
+    return cy.get('[data-testid="rancher-ai-ui-chat-history-item-folder-input"]');
+  }
+
+  starredIcon() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-item-starred"]');
+  }
+
   tooltip() {
     return new TooltipPo();
   }
@@ -74,6 +82,10 @@ export class HistoryChatItemPo extends ComponentPo {
     this.self().click();
   }
 
+  checkbox() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-item-checkbox"]');
+  }
+
   showTooltip() {
     // The name tooltip (v-clean-tooltip / floating-vue) is bound to the name span and opens on its
     // mouseenter event. Dispatch mouseenter synthetically - the proven @rancher/cypress TooltipPo
@@ -117,6 +129,45 @@ export class HistoryPo extends ComponentPo {
     return new HistoryChatItemPo(index);
   }
 
+  /**
+   * Returns the header of a group of the chat list: `pinned`, `folder-<name>` or `previous-<date>`,
+   * where date is `today`, `last-week`, `last-month` or `older`.
+   */
+  group(key: string) {
+    return this.self().find(`[data-testid="rancher-ai-ui-chat-history-group-${ key }"]`);
+  }
+
+  /**
+   * Returns the chats of a group: the list is virtualized, the chats are not nested in the group header.
+   */
+  groupChats(key: string) {
+    return this.self().find(`[data-group="${ key }"]`).find(CHAT_ITEM_SELECTOR);
+  }
+
+  count() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-count"]');
+  }
+
+  selectButton() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-select-button"]');
+  }
+
+  selectedCount() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-selected-count"]');
+  }
+
+  bulkFolderInput() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-history-bulk-folder-input"]');
+  }
+
+  /**
+   * Runs an action of the bulk menu: `export-chats-<format>`, `move-chats`, `delete-chats` or `delete-older-chats`.
+   */
+  doBulkAction(actionId: string) {
+    this.self().find('[data-testid="rancher-ai-ui-chat-history-bulk-menu-button"] button').click();
+    cy.get(`[data-testid="rancher-ai-ui-chat-history-bulk-menu-button-option-${ actionId }"]`).click({ force: true });
+  }
+
   isOpen() {
     return this.checkExists();
   }
@@ -142,4 +193,34 @@ export class HistoryPo extends ComponentPo {
   createChat() {
     this.createChatButton().click();
   }
+
+  searchInput() {
+    return this.self().get('[data-testid="rancher-ai-ui-chat-history-search-input"]');
+  }
+
+  search(query: string) {
+    this.searchInput().clear().type(query);
+  }
+
+  searchResult(index: number) {
+    return this.self().find(`[data-testid="rancher-ai-ui-chat-history-search-result-${ index }"]`);
+  }
+
+  searchResultMatch(index: number, matchIndex: number) {
+    return this.searchResult(index).find(`[data-testid="rancher-ai-ui-chat-history-search-result-match-${ matchIndex }"]`);
+  }
+
+  importChatInput() {
+    return this.self().get('[data-testid="rancher-ai-ui-chat-history-import-chat-input"]');
+  }
+
+  /**
+   * Imports a chat export: the file input is hidden behind the "Import a Chat" button.
+   */
+  importChat(contents: string, fileName = 'chat.json') {
+    this.importChatInput().selectFile({
+      contents: Cypress.Buffer.from(contents),
+      fileName,
+    }, { force: true });
+  }
 }
\ No newline at end of file
@@ -58,6 +58,10 @@ class RawMessagePo extends ComponentPo {
     return this.self().get(`[data-teststatus="rancher-ai-ui-chat-message-status-${ this.id }-completed"]`).should('exist');
   }
 
+  isStopped() {
+    return this.self().get('[data-testid="rancher-ai-ui-chat-message-stopped"]').should('exist');
+  }
+
   isConfirmed(args = { withLabel: 'Confirmed' }) {
     return this.self().get('[data-testid="rancher-ai-ui-chat-message-confirmation-status-confirmed"]').should('contain.text', args.withLabel);
   }
@@ -86,6 +90,46 @@ class RawMessagePo extends ComponentPo {
     return new BubbleButtonPo('icon-backup', this.self());
   }
 
+  editAndResendButton() {
+    return new BubbleButtonPo('icon-version-alt', this.self());
+  }
+
+  regenerateButton() {
+    return new BubbleButtonPo('icon-refresh', this.self());
+  }
+
+  bookmarkButton() {
+    return new BubbleButtonPo('icon-star-open', this.self());
+  }
+
+  removeBookmarkButton() {
+    return new BubbleButtonPo('icon-star', this.self());
+  }
+
+  bookmarkLabel() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-bookmark"]');
+  }
+
+  editInput() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-edit-input"]');
+  }
+
+  editSendButton() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-edit-send"]');
+  }
+
+  versionsLabel() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-versions-label"]');
+  }
+
+  previousVersionButton() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-versions-previous"]');
+  }
+
+  nextVersionButton() {
+    return this.self().find('[data-testid="rancher-ai-ui-chat-message-versions-next"]');
+  }
+
   containsText(value: string) {
     return this.self().within(() => {
       cy.contains(value).should('be.visible', { timeout: 10000 });
@@ -1,5 +1,6 @@
 import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
 import { MessagePo, ErrorMessagePo } from '@/cypress/e2e/po/message.po';
+import FindBarPo from '@/cypress/e2e/po/find-bar.po';
 
 export default class MessagesPo extends ComponentPo {
   constructor() {
@@ -25,6 +26,18 @@ export default class MessagesPo extends ComponentPo {
     });
   }
 
+  findBar() {
+    return new FindBarPo();
+  }
+
+  findMatches() {
+    return this.self().find('mark.chat-find-match');
+  }
+
+  activeFindMatch() {
+    return this.self().find('mark.chat-find-match-active');
+  }
+
   getMessage(id: string | number) {
     return new MessagePo(id.toString());
   }
@@ -0,0 +1,35 @@
+import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
+
+export default class ResourceTablePo extends ComponentPo {
+  constructor(resource: string, parent?: Cypress.Chainable) {
+    super(`[data-testid="rancher-ai-ui-tool-resource-table-${ resource }"]`, parent);
+  }
+
+  filter(text: string) {
+    return this.self().find('[data-testid="rancher-ai-ui-tool-resource-table-filter"]').clear().type(text);
+  }
+
+  sortBy(column: string) {
+    return this.self().find(`[data-testid="rancher-ai-ui-tool-resource-table-sort-${ column }"]`).click();
+  }
+
+  rows() {
+    return this.self().find('[data-testid^="rancher-ai-ui-tool-resource-table-row-"]');
+  }
+
+  row(key: string) {
+    return this.self().find(`[data-testid="rancher-ai-ui-tool-resource-table-row-${ key }"]`);
+  }
+
+  selectRow(key: string) {
+    return this.row(key).find('[data-testid="rancher-ai-ui-tool-resource-table-select"]').check();
+  }
+
+  link(key: string) {
+    return this.self().find(`[data-testid="rancher-ai-ui-tool-resource-table-link-${ key }"]`);
+  }
+
+  addToContextButton() {
+    return this.self().find('[data-testid="rancher-ai-ui-tool-resource-table-add-context"]');
+  }
+}
@@ -1,5 +1,6 @@
 import ComponentPo from '@rancher/cypress/e2e/po/components/component.po';
 import ListOptionsPo from '@/cypress/e2e/po/components/list-options.po';
+import ResourceTablePo from '@/cypress/e2e/po/ui-tools/resource-table.po';
 
 export default class ToolPo extends ComponentPo {
   suggestions(index: number) {
@@ -14,6 +15,14 @@ export default class ToolPo extends ComponentPo {
     return this.self().get(`[data-testid="rancher-ai-ui-tool-explore-${ route }"]`);
   }
 
+  resourceTable(resource: string) {
+    return new ResourceTablePo(resource, this.self());
+  }
+
+  resourceStatus(resource: string, namespace: string, name: string) {
+    return this.self().get(`[data-testid="rancher-ai-ui-tool-resource-status-${ resource }-${ namespace }-${ name }"]`);
+  }
+
   openConsoleLogs(cluster: string, namespace: string, name: string, containerName: string) {
     return this.self().get(`[data-testid="rancher-ai-ui-tool-open-console-logs-${ cluster }-${ namespace }-${ name }-${ containerName }"]`);
   }
@@ -1,6 +1,6 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
 import ClusterDashboardPagePo from '@rancher/cypress/e2e/po/pages/explorer/cluster-dashboard.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 
 describe('Feature: chat-open-shortcut', () => {
   const chat = new ChatPo();
@@ -15,14 +15,14 @@ describe('Feature: chat-open-shortcut', () => {
   });
 
   it('Test 1: Alt+K opens the chat panel when it is closed', () => {
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('not.exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('not.exist');
 
     chat.openViaKeyboard();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('exist');
     cy.get('[data-testid="rancher-ai-ui-chat-panel-ready"]').should('exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-open-shortcut-test-1-opens-chat');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-open-shortcut-test-1-opens-chat');
   });
 
   it('Test 2: Alt+K closes the chat panel when it is open', () => {
@@ -35,31 +35,31 @@ describe('Feature: chat-open-shortcut', () => {
 
     chat.closeViaKeyboard();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('not.exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('not.exist');
 
     cy.screenshot('chat-open-shortcut-test-2-closes-chat');
   });
 
   it('Test 3: Alt+K toggles the chat panel multiple times', () => {
     chat.openViaKeyboard();
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('exist');
 
     const welcomeMessage1 = chat.getMessage(1);
 
     welcomeMessage1.isCompleted();
 
     chat.closeViaKeyboard();
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('not.exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('not.exist');
 
     chat.openViaKeyboard();
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('exist');
     cy.get('[data-testid="rancher-ai-ui-chat-panel-ready"]').should('exist');
 
     const welcomeMessage2 = chat.getMessage(1);
 
     welcomeMessage2.isCompleted();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-open-shortcut-test-3-toggle-multiple');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-open-shortcut-test-3-toggle-multiple');
   });
 
   it('Test 4: Chat is fully functional after being opened with Alt+K', () => {
@@ -82,7 +82,7 @@ describe('Feature: chat-open-shortcut', () => {
     aiMessage.isCompleted();
     aiMessage.containsText('Hello from keyboard.');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-open-shortcut-test-4-functional-after-keyboard-open');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-open-shortcut-test-4-functional-after-keyboard-open');
   });
 
   it('Test 5: Alt+K closes the chat when the input textarea is focused', () => {
@@ -103,7 +103,7 @@ describe('Feature: chat-open-shortcut', () => {
         altKey: true,
       });
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('not.exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('not.exist');
 
     cy.screenshot('chat-open-shortcut-test-5-closes-when-textarea-focused');
   });
@@ -114,11 +114,11 @@ describe('Feature: chat-open-shortcut', () => {
     clusterDashboard.goTo();
 
     chat.openViaKeyboard();
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('exist');
     cy.get('[data-testid="rancher-ai-ui-chat-panel-ready"]').should('exist');
 
     chat.closeViaKeyboard();
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('not.exist');
+    cy.get(ACTIVE_CHAT_CONTAINER).should('not.exist');
 
     cy.screenshot('chat-open-shortcut-test-6-works-on-cluster-dashboard');
   });
@@ -1,5 +1,5 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 import ChatPanelMenuPo from '@/cypress/e2e/po/chat-panel-menu.po';
 import { HistoryPo } from '@/cypress/e2e/po/history.po';
 import DeleteChatPromptPo from '@/cypress/e2e/po/dialog/delete-chat.po';
@@ -22,11 +22,13 @@ describe('Feature: chat-panel-menu', () => {
   it('Test 1: Menu button opens the ⋮ dropdown', () => {
     menu.openMenu();
 
-    cy.contains('.v-popper__popper', 'Download Messages').should('be.visible');
+    cy.contains('.v-popper__popper', 'Download as Markdown').should('be.visible');
+    cy.contains('.v-popper__popper', 'Download as JSON').should('be.visible');
+    cy.contains('.v-popper__popper', 'Download as HTML').should('be.visible');
     cy.contains('.v-popper__popper', 'View Keyboard Shortcuts').should('be.visible');
     cy.contains('.v-popper__popper', 'Edit Configuration').should('be.visible');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-1-menu-open');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-1-menu-open');
   });
 
   it('Test 2: "Keyboard shortcuts" menu option opens the shortcuts popover', () => {
@@ -36,7 +38,7 @@ describe('Feature: chat-panel-menu', () => {
     menu.shortcutsTitle().should('be.visible');
     menu.shortcutsRows().should('have.length.gte', 1);
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-2-shortcuts-popover');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-2-shortcuts-popover');
   });
 
   it('Test 3: Shortcuts popover lists the correct shortcut actions', () => {
@@ -55,13 +57,14 @@ describe('Feature: chat-panel-menu', () => {
       expect(texts).to.include('Copy Last Response');
       expect(texts).to.include('View Previous Chats');
       expect(texts).to.include('Delete Current Chat');
+      expect(texts).to.include('Find in Chat');
     });
 
     menu.shortcutsRows().each(($row) => {
       cy.wrap($row).find('.shortcuts-key').should('exist');
     });
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-3-shortcuts-content');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-3-shortcuts-content');
   });
 
   it('Test 4: "Edit Configuration" menu option navigates to the AI settings page', () => {
@@ -79,18 +82,20 @@ describe('Feature: chat-panel-menu', () => {
     cy.screenshot('chat-panel-menu-test-4-configure-navigation');
   });
 
-  it('Test 5: "Download Messages" menu option triggers a file download', () => {
+  it('Test 5: "Download as ..." menu options trigger a file download', () => {
     cy.enqueueLLMResponse({ text: 'Hello from AI.' });
     chat.sendMessage('Hello');
     chat.getMessage(3).isCompleted();
 
-    menu.openMenu();
-    menu.clickOption('Download Messages');
+    ['Download as Markdown', 'Download as JSON', 'Download as HTML'].forEach((option) => {
+      menu.openMenu();
+      menu.clickOption(option);
 
-    // Download is a background operation — chat panel should remain open
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').should('be.visible');
+      // Download is a background operation — chat panel should remain open
+      cy.get(ACTIVE_CHAT_CONTAINER).should('be.visible');
+    });
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-5-download-chat');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-5-download-chat');
   });
 
   it('Test 6: Keyboard shortcut Ctrl+Shift+O (New chat) creates a new chat', () => {
@@ -98,12 +103,12 @@ describe('Feature: chat-panel-menu', () => {
     chat.sendMessage('Hello');
     chat.getMessage(3).isCompleted();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').type('{ctrl}{shift}o');
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}{shift}o');
 
     chat.getMessage(1).isCompleted();
     cy.get('[data-testid="rancher-ai-ui-chat-message-box-2"]').should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-6-new-chat-shortcut');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-6-new-chat-shortcut');
   });
 
   it('Test 7: Keyboard shortcut Ctrl+Shift+S (Toggle history) opens history panel', () => {
@@ -111,15 +116,15 @@ describe('Feature: chat-panel-menu', () => {
 
     history.isClosed();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').type('{ctrl}{shift}s');
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}{shift}s');
 
     history.isOpen();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').type('{ctrl}{shift}s');
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}{shift}s');
 
     history.isClosed();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-7-toggle-history-shortcut');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-7-toggle-history-shortcut');
   });
 
   it('Test 8: Keyboard shortcut Ctrl+Shift+Backspace (Delete chat) shows delete confirmation', () => {
@@ -127,13 +132,13 @@ describe('Feature: chat-panel-menu', () => {
     chat.sendMessage('Hello');
     chat.getMessage(3).isCompleted();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').type('{ctrl}{shift}{backspace}');
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}{shift}{backspace}');
 
     const deletePrompt = new DeleteChatPromptPo();
 
     deletePrompt.confirmButton().should('be.visible');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-8-delete-shortcut-dialog');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-8-delete-shortcut-dialog');
   });
 
   it('Test 9: Keyboard shortcut Ctrl+Shift+C (Copy last message) copies AI response', () => {
@@ -145,11 +150,42 @@ describe('Feature: chat-panel-menu', () => {
       cy.stub(win.navigator.clipboard, 'writeText').as('clipboardWrite').resolves();
     });
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').type('{ctrl}{shift}c');
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}{shift}c');
 
     cy.get('@clipboardWrite').should('have.been.calledOnce');
     cy.get('@clipboardWrite').should('have.been.calledWith', 'Hello from AI.');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('chat-panel-menu-test-9-copy-last-message');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-9-copy-last-message');
+  });
+
+  it('Test 10: Keyboard shortcut Ctrl+F (Find) highlights and navigates the matches', () => {
+    cy.enqueueLLMResponse({ text: 'The pod is running. Another pod is pending.' });
+    chat.sendMessage('Show the pods');
+    chat.getMessage(3).isCompleted();
+
+    cy.get(ACTIVE_CHAT_CONTAINER).type('{ctrl}f');
+
+    const messages = chat.messagesPanel();
+    const findBar = messages.findBar();
+
+    findBar.input().should('be.focused');
+    findBar.find('pod');
+
+    findBar.count().should('contain.text', '1 of 3');
+    messages.findMatches().should('have.length', 3);
+    messages.activeFindMatch().should('have.length', 1).and('contain.text', 'pod');
+
+    findBar.next();
+    findBar.count().should('contain.text', '2 of 3');
+
+    findBar.previous();
+    findBar.previous();
+    findBar.count().should('contain.text', '3 of 3');
+
+    findBar.input().type('{esc}');
+    findBar.checkNotExists();
+    messages.findMatches().should('not.exist');
+
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('chat-panel-menu-test-10-find-shortcut');
   });
 });
@@ -1,5 +1,5 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 import { ConsolePo } from '@/cypress/e2e/po/console.po';
 
 describe('Feature: console-input', () => {
@@ -32,7 +32,7 @@ describe('Feature: console-input', () => {
         .should('be.visible')
         .and('contain.text', 'Tab');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-1-arrowup-shows-autocomplete');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-1-arrowup-shows-autocomplete');
     });
 
     it('Test 2: Tab accepts the autocomplete suggestion', () => {
@@ -55,7 +55,7 @@ describe('Feature: console-input', () => {
       cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]')
         .should('have.value', 'First prompt');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-2-tab-accepts-autocomplete');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-2-tab-accepts-autocomplete');
     });
 
     it('Test 3: Multiple ArrowUp presses navigate to older messages', () => {
@@ -76,7 +76,7 @@ describe('Feature: console-input', () => {
       cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]').type('{uparrow}');
       console.autocompleteOverlay().should('contain.text', 'First prompt');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-3-multiple-arrowup-older-messages');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-3-multiple-arrowup-older-messages');
     });
 
     it('Test 4: ArrowDown navigates forward in prompt history', () => {
@@ -98,7 +98,7 @@ describe('Feature: console-input', () => {
       cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]').type('{downarrow}');
       console.autocompleteOverlay().should('not.exist');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-4-arrowdown-forward-navigation');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-4-arrowdown-forward-navigation');
     });
 
     it('Test 5: Typing clears the autocomplete overlay', () => {
@@ -112,7 +112,7 @@ describe('Feature: console-input', () => {
       cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]').type('x');
       console.autocompleteOverlay().should('not.exist');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-5-typing-clears-autocomplete');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-5-typing-clears-autocomplete');
     });
   });
 
@@ -122,7 +122,7 @@ describe('Feature: console-input', () => {
         .should('be.visible')
         .and('contain.text', 'Uses AI, running');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-6-llm-model-label');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-6-llm-model-label');
     });
 
     it('Test 7: Verify results disclaimer popover opens with correct content', () => {
@@ -138,7 +138,7 @@ describe('Feature: console-input', () => {
         .and('contain.text', 'Use at Your Own Risk')
         .and('contain.text', 'Do Not Share Secrets');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('console-input-test-7-verify-results-popover');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('console-input-test-7-verify-results-popover');
     });
   });
 });
@@ -1,7 +1,7 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
 import { WorkloadsDeploymentsListPagePo } from '@rancher/cypress/e2e/po/pages/explorer/workloads/workloads-deployments.po';
 import ClusterDashboardPagePo from '@rancher/cypress/e2e/po/pages/explorer/cluster-dashboard.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 import ContextPo from '@/cypress/e2e/po/context.po';
 
 describe('Feature: context-selection', () => {
@@ -28,7 +28,7 @@ describe('Feature: context-selection', () => {
     context.allTags().should('have.length.gte', 1);
     context.addContextTrigger().should('exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-1-context-tags-visible');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-1-context-tags-visible');
   });
 
   it('Test 2: Context panel shows "no context" message on home page', () => {
@@ -41,7 +41,7 @@ describe('Feature: context-selection', () => {
     context.allTags().should('not.exist');
     context.addContextTrigger().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-2-no-context');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-2-no-context');
   });
 
   it('Test 3: User can remove a context tag from the panel', () => {
@@ -60,7 +60,7 @@ describe('Feature: context-selection', () => {
     context.allTags().should('not.exist');
     context.resetButton().should('be.visible');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-3-tag-removed');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-3-tag-removed');
   });
 
   it('Test 4: User can reset context to full set after removing a tag', () => {
@@ -89,7 +89,7 @@ describe('Feature: context-selection', () => {
 
     context.resetButton().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-4-context-reset');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-4-context-reset');
   });
 
   it('Test 5: User can toggle a context item via the "Add context" dropdown', () => {
@@ -120,7 +120,7 @@ describe('Feature: context-selection', () => {
     context.allTags().should('have.length.gte', 1);
     context.resetButton().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-5-tag-re-added');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-5-tag-re-added');
   });
 
   it('Test 6: Context tags are included when sending a message', () => {
@@ -149,7 +149,7 @@ describe('Feature: context-selection', () => {
     resultMessage.context('local').should('exist');
     resultMessage.containsText('Here is the context response.');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-6-context-in-message');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-6-context-in-message');
   });
 
   it('Test 8: Removing all context tags hides the "Reset" button when re-navigating', () => {
@@ -174,7 +174,7 @@ describe('Feature: context-selection', () => {
     context.allTags().should('have.length.gte', 1);
     context.resetButton().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-8-context-updates-on-navigation');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-8-context-updates-on-navigation');
   });
 
   describe('disabled state', () => {
@@ -194,7 +194,7 @@ describe('Feature: context-selection', () => {
 
       context.isDisabled();
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-selection-test-7-context-disabled');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-selection-test-7-context-disabled');
     });
   });
 });
@@ -1,6 +1,6 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
 import { WorkloadsDeploymentsListPagePo } from '@rancher/cypress/e2e/po/pages/explorer/workloads/workloads-deployments.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 import ContextPo from '@/cypress/e2e/po/context.po';
 
 describe('Feature: context', () => {
@@ -26,7 +26,7 @@ describe('Feature: context', () => {
 
     context.tag('local').should('be.visible');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-1-cluster-tag-visible');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-1-cluster-tag-visible');
   });
 
   it('Test 2: No context shown on Home page', () => {
@@ -38,7 +38,7 @@ describe('Feature: context', () => {
     context.noContextLabel().should('be.visible');
     cy.get('[data-testid^="rancher-ai-ui-context-tag-"]').should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-2-no-context-home');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-2-no-context-home');
   });
 
   it('Test 3: Deselect a context tag', () => {
@@ -57,7 +57,7 @@ describe('Feature: context', () => {
     context.tag('local').should('not.exist');
     context.resetButton().should('be.visible');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-3-tag-deselected');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-3-tag-deselected');
   });
 
   it('Test 4: Re-add a context via the dropdown', () => {
@@ -78,7 +78,7 @@ describe('Feature: context', () => {
     context.tag('local').should('be.visible');
     context.resetButton().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-4-tag-readded');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-4-tag-readded');
   });
 
   it('Test 5: Reset restores all deselected tags', () => {
@@ -100,7 +100,7 @@ describe('Feature: context', () => {
     cy.get('[data-testid^="rancher-ai-ui-context-tag-"]').should('be.visible');
     context.resetButton().should('not.exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-5-reset-restores-all');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-5-reset-restores-all');
   });
 
   it('Test 6: Deselected context is NOT included in sent message', () => {
@@ -123,7 +123,7 @@ describe('Feature: context', () => {
       cy.get('[data-testid="rancher-ai-ui-context-tag-local"]').should('not.exist');
     });
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-6-deselected-not-in-message');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-6-deselected-not-in-message');
   });
 
   it('Test 7: Selected context IS included in sent message', () => {
@@ -142,6 +142,6 @@ describe('Feature: context', () => {
 
     userMessage.context('local').should('exist');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('context-test-7-selected-context-in-message');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('context-test-7-selected-context-in-message');
   });
 });
@@ -1,6 +1,8 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
 import ChatPo from '@/cypress/e2e/po/chat.po';
 import DeleteChatPromptPo from '@/cypress/e2e/po/dialog/delete-chat.po';
+import DeleteChatsPromptPo from '@/cypress/e2e/po/dialog/delete-chats.po';
+import ImportChatPromptPo from '@/cypress/e2e/po/dialog/import-chat.po';
 import { HistoryPo } from '@/cypress/e2e/po/history.po';
 
 describe('History Panel', () => {
@@ -117,6 +119,41 @@ describe('History Panel', () => {
     }
   });
 
+  it('It should show the number of chats and group them by date', () => {
+    history.open();
+
+    history.count().should('contain', 'chats');
+    history.group('previous-today').should('contain', 'Today');
+    history.groupChats('previous-today').should('have.length.at.least', 1);
+  });
+
+  it('It should search chats by message and open the matching message', () => {
+    history.open();
+    history.search('Chat 2 - response 3');
+
+    const result = history.searchResult(0);
+
+    result.should('contain.text', 'Chat 2 - request 1');
+    result.find('mark').should('exist');
+
+    history.searchResultMatch(0, 0).should('contain.text', 'Chat 2 - response 3').click();
+
+    chat.isReady();
+    history.isClosed();
+
+    const responseMessage = chat.getMessage(6);
+
+    responseMessage.containsText('Chat 2 - response 3');
+    responseMessage.self().should('have.class', 'chat-message-focused');
+  });
+
+  it('It should show no results when no chat matches the search', () => {
+    history.open();
+    history.search('no chat contains this text');
+
+    cy.get('[data-testid="rancher-ai-ui-chat-history-search-no-results"]').should('be.visible');
+  });
+
   it('It should show correct name and tooltip for chat items', () => {
     history.open();
 
@@ -154,6 +191,203 @@ describe('History Panel', () => {
     chatItem.self().contains(newName);
   });
 
+  it('It should export chats from history', () => {
+    history.open();
+
+    ['export-chat-markdown', 'export-chat-json', 'export-chat-html'].forEach((action) => {
+      history.chatItem(0).menu().doAction(action);
+
+      // Export is a background operation — history panel should remain open
+      history.isOpen();
+    });
+  });
+
+  it('It should pin, star and move chats to folders', () => {
+    history.open();
+
+    history.chatItem(1).name().invoke('text').then((text) => {
+      const name = text.trim();
+
+      // Pinned chats are listed first
+      history.chatItem(1).menu().doAction('pin-chat');
+      history.groupChats('pinned').should('contain', name);
+      history.chatItem(0).name().should('contain', name);
+
+      history.chatItem(0).menu().doAction('star-chat');
+      history.chatItem(0).starredIcon().should('exist');
+
+      // Moving a chat to a folder unpins it
+      history.chatItem(0).menu().doAction('move-chat');
+      history.chatItem(0).folderInput().should('be.visible').type('Incidents{enter}');
+      history.groupChats('folder-Incidents').should('contain', name);
+      history.group('pinned').should('not.exist');
+
+      // The metadata is persisted
+      history.closeByClickOutside();
+      history.open();
+
+      history.groupChats('folder-Incidents').should('contain', name);
+      history.chatItem(0).starredIcon().should('exist');
+
+      history.chatItem(0).menu().doAction('unstar-chat');
+      history.chatItem(0).starredIcon().should('not.exist');
+
+      history.chatItem(0).menu().doAction('remove-chat-from-folder');
+      history.group('folder-Incidents').should('not.exist');
+      history.groupChats('previous-today').should('contain', name);
+      history.chatItem(1).name().should('contain', name);
+    });
+  });
+
+  it('It should import chats read-only', () => {
+    const createdAt = new Date().toISOString();
+
+    history.open();
+    history.importChat(JSON.stringify({
+      kind:       'rancher-ai-ui.chat',
+      version:    1,
+      chat:       {
+        id:   'imported-chat',
+        name: 'Imported Chat'
+      },
+      exportedAt: createdAt,
+      messages:   [
+        {
+          id:       '1',
+          parentId: null,
+          chatId:   'imported-chat',
+          role:     'user',
+          agent:    null,
+          message:  'Imported request',
+          createdAt
+        },
+        {
+          id:       '2',
+          parentId: '1',
+          chatId:   'imported-chat',
+          role:     'agent',
+          agent:    null,
+          message:  'Imported response',
+          createdAt
+        },
+      ]
+    }));
+
+    const prompt = new ImportChatPromptPo();
+
+    prompt.summary().should('contain.text', 'Imported Chat');
+    prompt.openReadOnly();
+
+    // The imported chat is open in a new tab, without console
+    const tab = () => cy.get('[data-testid^="rancher-ai-ui-chat-tab-"]').filter(':visible');
+
+    tab().find('[data-testid="rancher-ai-ui-chat-read-only-label"]').should('be.visible');
+    tab().find('[data-testid="rancher-ai-ui-chat-messages"]').should('contain.text', 'Imported request').and('contain.text', 'Imported response');
+    tab().find('[data-testid="rancher-ai-ui-chat-input-textarea"]').should('not.exist');
+  });
+
+  it('It should reject invalid chat exports', () => {
+    history.open();
+    history.importChat('{"kind":"other"}');
+
+    new ImportChatPromptPo().error().should('be.visible');
+  });
+
+  it('It should share chats with a read-only link', () => {
+    const createdAt = new Date().toISOString();
+
+    cy.intercept('POST', '**/shares', { id: 'shared-chat' }).as('shareChat');
+    cy.intercept('GET', '**/shares/shared-chat', {
+      kind:       'rancher-ai-ui.chat',
+      version:    1,
+      chat:       {
+        id:   'chat-1',
+        name: 'Shared Chat'
+      },
+      exportedAt: createdAt,
+      messages:   [
+        {
+          id:       '1',
+          parentId: null,
+          chatId:   'chat-1',
+          role:     'user',
+          agent:    null,
+          message:  'Shared request',
+          createdAt
+        },
+        {
+          id:       '2',
+          parentId: '1',
+          chatId:   'chat-1',
+          role:     'agent',
+          agent:    null,
+          message:  'Shared response',
+          createdAt
+        },
+      ]
+    });
+
+    cy.window().then((win) => {
+      cy.stub(win.navigator.clipboard, 'writeText').resolves().as('copyLink');
+    });
+
+    history.open();
+    history.chatItem(0).menu().doAction('share-chat');
+
+    cy.wait('@shareChat').its('request.body.kind').should('eq', 'rancher-ai-ui.chat');
+    cy.get('@copyLink').should('have.been.calledWithMatch', /\/c\/local\/explorer\/shared\/shared-chat$/);
+
+    cy.visit('/c/local/explorer/shared/shared-chat');
+
+    cy.get('[data-testid="rancher-ai-ui-shared-chat-name"]').should('contain.text', 'Shared Chat');
+    cy.get('[data-testid="rancher-ai-ui-shared-chat-read-only-label"]').should('be.visible');
+    cy.get('[data-testid="rancher-ai-ui-shared-chat"] [data-testid="rancher-ai-ui-chat-messages"]')
+      .should('contain.text', 'Shared request')
+      .and('contain.text', 'Shared response');
+  });
+
+  it('It should show an error when the shared link cannot be copied', () => {
+    cy.intercept('POST', '**/shares', { id: 'shared-chat' }).as('shareChat');
+
+    cy.window().then((win) => {
+      cy.stub(win.navigator.clipboard, 'writeText').rejects(new Error('Write permission denied')).as('copyLink');
+    });
+
+    history.open();
+    history.chatItem(0).menu().doAction('share-chat');
+
+    cy.wait('@shareChat');
+    cy.get('@copyLink').should('have.been.called');
+
+    cy.get('.growl').should('contain.text', 'The link to the shared chat could not be copied to the clipboard');
+    cy.get('.growl').should('not.contain.text', 'Link to the shared chat copied to the clipboard');
+  });
+
+  it('It should select chats and run the bulk actions', () => {
+    history.open();
+    history.selectButton().click();
+
+    history.chatItem(0).checkbox().click();
+    history.chatItem(1).select();
+    history.selectedCount().should('contain', '2 chats selected');
+
+    history.doBulkAction('export-chats-json');
+    history.isOpen();
+
+    // No chat is older than one day
+    history.doBulkAction('delete-older-chats');
+
+    const prompt = new DeleteChatsPromptPo();
+
+    prompt.daysInput().clear().type('1');
+    prompt.chatList().find('li').should('have.length', 0);
+    prompt.confirmButton().should('be.disabled');
+    prompt.close();
+
+    history.selectButton().click();
+    history.selectedCount().should('not.exist');
+  });
+
   it('It should delete chats from history', () => {
     history.open();
 
@@ -213,4 +447,35 @@ describe('History Panel', () => {
     cy.login();
     cy.cleanChatHistory();
   });
-});
\ No newline at end of file
+
+  it('It should delete chats in bulk', () => {
+    for (let i = 0; i < 2; i++) {
+      cy.enqueueLLMResponse({
+        text:      `Bulk response ${ i + 1 }`,
+        chunkSize: 5
+      });
+
+      chat.sendMessage(`Bulk request ${ i + 1 }`);
+      chat.getMessage(3).isCompleted();
+
+      history.open();
+      history.createChat();
+      chat.getMessage(1).isCompleted();
+    }
+
+    history.open();
+    history.selectButton().click();
+    history.self().find('[data-testid="rancher-ai-ui-chat-history-select-all"]').click();
+    history.doBulkAction('delete-chats');
+
+    const prompt = new DeleteChatsPromptPo();
+
+    prompt.chatList().should('contain', 'Bulk request 1').and('contain', 'Bulk request 2');
+    prompt.confirm();
+    prompt.results().should('contain', '2 chats deleted');
+    prompt.failures().should('not.exist');
+    prompt.close();
+
+    history.chatItems().should('not.exist');
+  });
+});
@@ -1,5 +1,5 @@
 import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
-import ChatPo from '@/cypress/e2e/po/chat.po';
+import ChatPo, { ACTIVE_CHAT_CONTAINER } from '@/cypress/e2e/po/chat.po';
 
 describe('Feature: message-actions', () => {
   const chat = new ChatPo();
@@ -26,7 +26,7 @@ describe('Feature: message-actions', () => {
 
       cy.get('@clipboardWrite').should('have.been.calledWith', 'The copy response text.');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-1-copy-ai-response');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-1-copy-ai-response');
     });
   });
 
@@ -42,7 +42,7 @@ describe('Feature: message-actions', () => {
 
       cy.get('[data-testid="rancher-ai-ui-bubble-btn-icon-copy"] .icon').should('have.class', 'icon-checkmark');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-2-copy-success-checkmark');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-2-copy-success-checkmark');
     });
   });
 
@@ -58,7 +58,7 @@ describe('Feature: message-actions', () => {
 
       cy.get('@clipboardWrite').should('have.been.calledWith', 'User copy test');
 
-      cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-3-copy-user-message');
+      cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-3-copy-user-message');
     });
   });
 
@@ -72,7 +72,7 @@ describe('Feature: message-actions', () => {
     cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]').should('have.value', 'Original prompt text');
     cy.get('[data-testid="rancher-ai-ui-chat-input-textarea"]').should('be.focused');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-4-edit-before-resend-textarea');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-4-edit-before-resend-textarea');
   });
 
   it('Test 5: Edit-before-resend button shows success checkmark', () => {
@@ -84,7 +84,7 @@ describe('Feature: message-actions', () => {
 
     cy.get('[data-testid="rancher-ai-ui-bubble-btn-icon-edit"] .icon').should('have.class', 'icon-checkmark');
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-5-edit-success-checkmark');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-5-edit-success-checkmark');
   });
 
   it('Test 6: Resend button re-sends the user message', () => {
@@ -98,6 +98,81 @@ describe('Feature: message-actions', () => {
     chat.getMessage(4).containsText('Resend this prompt');
     chat.getMessage(5).isCompleted();
 
-    cy.get('[data-testid="rancher-ai-ui-chat-container"]').screenshot('message-actions-test-6-resend-message');
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-6-resend-message');
+  });
+
+  it('Test 8: Regenerate forks a new version of the AI response', () => {
+    cy.enqueueLLMResponse({ text: 'First answer.' });
+    chat.sendMessage('Regenerate this answer');
+    chat.getMessage(3).isCompleted();
+
+    cy.enqueueLLMResponse({ text: 'Second answer.' });
+    chat.getMessage(3).regenerateButton().click();
+
+    chat.getMessage(4).containsText('Second answer.');
+    chat.getMessage(4).isCompleted();
+    chat.getMessage(3).checkNotExists();
+    chat.getMessage(4).versionsLabel().should('contain.text', '2/2');
+
+    chat.getMessage(4).previousVersionButton().click();
+
+    chat.getMessage(3).containsText('First answer.');
+    chat.getMessage(3).versionsLabel().should('contain.text', '1/2');
+    chat.getMessage(4).checkNotExists();
+
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-8-regenerate-response');
+  });
+
+  it('Test 9: Edit & resend forks a new version of the conversation', () => {
+    cy.enqueueLLMResponse({ text: 'Answer to the original prompt.' });
+    chat.sendMessage('Original prompt');
+    chat.getMessage(3).isCompleted();
+
+    chat.getMessage(2).editAndResendButton().click();
+    chat.getMessage(2).editInput().should('have.value', 'Original prompt');
+
+    cy.enqueueLLMResponse({ text: 'Answer to the edited prompt.' });
+    chat.getMessage(2).editInput().clear().type('Edited prompt');
+    chat.getMessage(2).editSendButton().click();
+
+    chat.getMessage(4).containsText('Edited prompt');
+    chat.getMessage(5).containsText('Answer to the edited prompt.');
+    chat.getMessage(2).checkNotExists();
+    chat.getMessage(4).versionsLabel().should('contain.text', '2/2');
+
+    chat.getMessage(4).previousVersionButton().click();
+
+    chat.getMessage(2).containsText('Original prompt');
+    chat.getMessage(3).containsText('Answer to the original prompt.');
+
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-9-edit-and-resend');
+  });
+
+  it('Test 10: Bookmark an AI response with a note', () => {
+    cy.intercept('PUT', '**/chats/*/messages/*', (req) => req.reply(req.body)).as('updateMessage');
+
+    cy.enqueueLLMResponse({ text: 'The root cause is the missing config map.' });
+    chat.sendMessage('Why is the pod crashing?');
+    chat.getMessage(3).isCompleted();
+
+    chat.getMessage(3).bookmarkButton().click();
+
+    cy.wait('@updateMessage').its('request.body.tags').should('include', 'bookmark');
+    chat.getMessage(3).bookmarkLabel().should('exist');
+
+    chat.bookmarks().toggle();
+    chat.bookmarks().bookmark('3').should('contain.text', 'The root cause is the missing config map.');
+    chat.bookmarks().note('3').type('Root cause{enter}');
+
+    cy.wait('@updateMessage').its('request.body.labels').should('deep.include', { 'bookmark-note': 'Root cause' });
+    chat.getMessage(3).bookmarkLabel().should('contain.text', 'Root cause');
+
+    cy.get(ACTIVE_CHAT_CONTAINER).screenshot('message-actions-test-10-bookmark-message');
+
+    chat.bookmarks().remove('3');
+
+    cy.wait('@updateMessage').its('request.body.tags').should('not.include', 'bookmark');
+    chat.getMessage(3).bookmarkLabel().should('not.exist');
+    chat.bookmarks().checkNotExists();
   });
 });
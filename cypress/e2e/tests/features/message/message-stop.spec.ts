@@ -0,0 +1,112 @@
+import HomePagePo from '@rancher/cypress/e2e/po/pages/home.po';
+
+import ChatPo from '@/cypress/e2e/po/chat.po';
+
+describe('Stop generation', () => {
+  const chat = new ChatPo();
+
+  before(() => {
+    cy.login();
+    cy.installUIToolsDefinition();
+  });
+
+  beforeEach(() => {
+    cy.login();
+    cy.clearLLMResponses();
+
+    HomePagePo.goTo();
+  });
+
+  it('Stop the response being generated and keep chatting', () => {
+    chat.open();
+
+    const welcomeMessage = chat.getMessage(1);
+
+    welcomeMessage.isCompleted();
+
+    chat.console().stopButton().should('not.exist');
+
+    cy.enqueueLLMResponse({
+      text:      [
+        'This is a very long response which is streamed in small chunks, ',
+        'so that there is enough time to stop it before it is completed. ',
+        'It keeps going for a while, and it should never be displayed until the end.',
+      ],
+      chunkSize: 2
+    });
+
+    chat.sendMessage('Tell me a long story');
+
+    const resultMessage = chat.getMessage(3);
+
+    resultMessage.containsText('This is');
+
+    chat.console().stopButton().should('be.visible').click();
+
+    resultMessage.isStopped();
+    resultMessage.isCompleted();
+    resultMessage.content().should('not.contain.text', 'until the end.');
+
+    chat.console().stopButton().should('not.exist');
+
+    // The connection is kept open
+    cy.enqueueLLMResponse({ text: 'Here is a short one.' });
+
+    chat.sendMessage('Tell me a short story');
+
+    chat.getMessage(4).containsText('Tell me a short story');
+    chat.getMessage(5).containsText('Here is a short one.');
+    chat.getMessage(5).isCompleted();
+  });
+
+  it('Ignore the tools and doc links streamed after the response was stopped', () => {
+    chat.open();
+
+    chat.getMessage(1).isCompleted();
+
+    cy.enqueueLLMResponse({
+      text: [
+        'This is a long response which is streamed in small chunks, ',
+        'so that there is enough time to stop it before the tools are sent. ',
+        'It keeps going for a while before the links.',
+        '<mcp-doclink>https://www.rancher.com/why-rancher</mcp-doclink>',
+        ''
+      ],
+      chunkSize: 2,
+      uiTools:   [
+        {
+          name: 'suggestions',
+          args: {
+            suggestion1: 'Show me the resources in local cluster',
+            suggestion2: 'Find my deployments',
+            suggestion3: 'Analyze the health status of my clusters',
+          }
+        }
+      ]
+    });
+
+    chat.sendMessage('Tell me a long story with links');
+
+    const resultMessage = chat.getMessage(3);
+
+    resultMessage.containsText('This is');
+
+    chat.console().stopButton().should('be.visible').click();
+
+    resultMessage.isStopped();
+
+    // The remaining frames of the stopped response are dropped
+    chat.messagesPanel().processingState().should('not.exist');
+    chat.console().stopButton().should('not.exist');
+    resultMessage.self().find('[data-testid^="rancher-ai-ui-chat-message-source-link-"]').should('not.exist');
+    resultMessage.self().find('[data-testid^="rancher-ai-ui-chat-message-list-options-"]').should('not.exist');
+
+    cy.enqueueLLMResponse({ text: 'Here is a short one.' });
+
+    chat.sendMessage('Tell me a short story');
+
+    chat.getMessage(5).containsText('Here is a short one.');
+    chat.getMessage(5).isCompleted();
+    chat.messagesPanel().processingState().should('not.exist');
+  });
+});
@@ -371,6 +371,128 @@ describe('UI Tools', () => {
 
         clustersPage.waitForPage();
       });
+
+      it('it should resolve the list page of any resource type', () => {
+        cy.enqueueLLMResponse({
+          text:      ['Navigate to the Deployments using the button below.'],
+          uiTools:   [
+            {
+              name: 'explore',
+              args: {
+                resource:  'apps.deployment',
+                cluster:   'local',
+                namespace: testPod.metadata.namespace
+              }
+            }
+          ]
+        });
+
+        chat.sendMessage('Request to explore a resource type');
+
+        const resultMessage = chat.getMessage(3);
+
+        resultMessage.isCompleted();
+
+        const exploreDeployments = resultMessage.tool().explore('apps.deployment');
+
+        exploreDeployments.should('be.visible').and('contain.text', 'Deployments');
+        exploreDeployments.click();
+
+        deploymentsListPage.waitForPage();
+      });
+    });
+
+    describe('resource-table', () => {
+      it('it should sort, filter and add the resources to the context', () => {
+        const podKey = `${ testPod.metadata.namespace }/${ testPod.metadata.name }`;
+
+        cy.enqueueLLMResponse({
+          text:      ['Here are the pods.'],
+          uiTools:   [
+            {
+              name: 'resource-table',
+              args: {
+                cluster:  'local',
+                resource: 'pod',
+                kind:     'Pod',
+                columns:  ['status', 'restarts'],
+                rows:     [
+                  {
+                    name:      testPod.metadata.name,
+                    namespace: testPod.metadata.namespace,
+                    status:    'Running',
+                    restarts:  0
+                  },
+                  {
+                    name:      'other-pod',
+                    namespace: testPod.metadata.namespace,
+                    status:    'CrashLoopBackOff',
+                    restarts:  12
+                  }
+                ]
+              }
+            }
+          ]
+        });
+
+        chat.sendMessage('List the pods');
+
+        const resultMessage = chat.getMessage(3);
+
+        resultMessage.isCompleted();
+
+        const table = resultMessage.tool().resourceTable('pod');
+
+        table.rows().should('have.length', 2);
+
+        table.sortBy('restarts');
+        table.sortBy('restarts');
+        table.rows().first().should('contain.text', 'other-pod');
+
+        table.filter('running');
+        table.rows().should('have.length', 1).and('contain.text', testPod.metadata.name);
+
+        table.selectRow(podKey);
+        table.addToContextButton().should('contain.text', 'Add 1 resource to context').click();
+
+        chat.context().tag(podKey).should('be.visible');
+
+        table.link(podKey).click();
+
+        cy.url().should('include', `/c/local/explorer/pod/${ podKey }`);
+      });
+    });
+
+    describe('resource-status', () => {
+      it('it should show the live status of the resource', () => {
+        cy.enqueueLLMResponse({
+          text:      ['Here is the status of the pod.'],
+          uiTools:   [
+            {
+              name: 'resource-status',
+              args: {
+                cluster:   'local',
+                resource:  'pod',
+                namespace: testPod.metadata.namespace,
+                name:      testPod.metadata.name,
+              }
+            }
+          ]
+        });
+
+        chat.sendMessage('What is the status of the pod?');
+
+        const resultMessage = chat.getMessage(3);
+
+        resultMessage.isCompleted();
+
+        const status = resultMessage.tool().resourceStatus('pod', testPod.metadata.namespace, testPod.metadata.name);
+
+        status.should('be.visible').and('contain.text', testPod.metadata.name);
+        status.find('[data-testid="rancher-ai-ui-tool-resource-status-live"]').should('be.visible');
+        status.find('[data-testid="rancher-ai-ui-tool-resource-status-state"]').should('be.visible');
+        status.find('[data-testid="rancher-ai-ui-tool-resource-status-conditions"]').should('contain.text', 'Ready');
+      });
     });
 
     describe('open-console-logs', () => {
@@ -2,6 +2,7 @@
 /* eslint-disable no-undef */
 import express from 'express';
 import http from 'http';
+import { randomUUID } from 'crypto';
 import fs from 'fs';
 import { WebSocketServer } from 'ws';
 import bodyParser from 'body-parser';
@@ -36,6 +37,10 @@ interface MessageRequest {
 const PORT = 8000;
 const WS_PATH = '/ws/agent';
 
+const PING = '__ping__';
+const PONG = '__pong__';
+const ABORT = '__abort__';
+
 const app = express();
 
 app.use(bodyParser.json());
@@ -89,10 +94,63 @@ app.post('/control/clear-queue', (req, res) => {
   res.json({ ok: true });
 });
 
+// Heartbeat behavior: announce heartbeat support in the chat metadata and optionally drop pongs (stale connection)
+const heartbeat = {
+  enabled:   false,
+  dropPongs: false
+};
+
+app.post('/control/heartbeat', (req, res) => {
+  const { enabled, dropPongs } = req.body || {};
+
+  if (typeof enabled === 'boolean') {
+    heartbeat.enabled = enabled;
+  }
+
+  if (typeof dropPongs === 'boolean') {
+    heartbeat.dropPongs = dropPongs;
+  }
+
+  _log('heartbeat settings:', heartbeat);
+
+  res.json({
+    ok: true,
+    heartbeat
+  });
+});
+
 wss.on('connection', (ws) => {
   _log('Client connected');
 
+  // Only sent when heartbeat is enabled, so that the other scenarios are unchanged
+  if (heartbeat.enabled) {
+    ws.send(`<chat-metadata>${ JSON.stringify({
+      chatId:      randomUUID(),
+      agents:      [],
+      storageType: 'in-memory',
+      heartbeat:   true
+    }) }</chat-metadata>`);
+  }
+
+  // Set when the client stops the response being streamed
+  let aborted = false;
+
   ws.on('message', async(raw) => {
+    if (String(raw) === ABORT) {
+      _log('Aborting the response being streamed');
+      aborted = true;
+
+      return;
+    }
+
+    if (String(raw) === PING) {
+      if (!heartbeat.dropPongs) {
+        ws.send(PONG);
+      }
+
+      return;
+    }
+
     try {
       const msg = JSON.parse(String(raw));
 
@@ -117,9 +175,16 @@ wss.on('connection', (ws) => {
         const content = nextItem.content || '';
         const chunkSize = nextItem.chunkSize || 20;
 
+        aborted = false;
+
         ws.send('<message>');
 
         for (let i = 0; i < content.length; i += chunkSize) {
+          // Stop streaming, the socket is kept open
+          if (aborted || ws.readyState !== ws.OPEN) {
+            break;
+          }
+
           const chunk = content.slice(i, i + chunkSize);
 
           ws.send(chunk);
@@ -50,4 +50,77 @@ describe('message/index.vue', () => {
 
     expect(callArgs.value).toBe('Hello, world!');
   });
+
+  it('should emit regenerate:message for completed assistant messages', async() => {
+    const message = {
+      id:                      2,
+      role:                    Role.Assistant,
+      formattedMessageContent: 'Hello!',
+      completed:               true,
+    };
+
+    const wrapper = mount(MessageComponent, {
+      ...requiredSetup(),
+      props: { message },
+    });
+
+    await wrapper.find('[data-testid="rancher-ai-ui-bubble-btn-icon-refresh"]').trigger('click');
+
+    expect(wrapper.emitted('regenerate:message')?.[0]).toStrictEqual([message]);
+  });
+
+  it('should not allow to regenerate while a response is being generated', () => {
+    const wrapper = mount(MessageComponent, {
+      ...requiredSetup(),
+      props: {
+        message: {
+          id:        2,
+          role:      Role.Assistant,
+          completed: true,
+        },
+        generating: true,
+      },
+    });
+
+    expect(wrapper.find('[data-testid="rancher-ai-ui-bubble-btn-icon-refresh"]').exists()).toBe(false);
+  });
+
+  it('should not allow to send read-only messages again', () => {
+    const wrapper = mount(MessageComponent, {
+      ...requiredSetup(),
+      props: {
+        message: {
+          id:   1,
+          role: Role.User,
+        },
+        readOnly: true,
+      },
+    });
+
+    expect(wrapper.find('[data-testid="rancher-ai-ui-bubble-btn-icon-backup"]').exists()).toBe(false);
+    expect(wrapper.find('[data-testid="rancher-ai-ui-bubble-btn-icon-version-alt"]').exists()).toBe(false);
+    expect(wrapper.find('[data-testid="rancher-ai-ui-bubble-btn-icon-copy"]').exists()).toBe(true);
+  });
+
+  it('should show the versions of the message and select another one', async() => {
+    const wrapper = mount(MessageComponent, {
+      ...requiredSetup(),
+      props: {
+        message: {
+          id:   3,
+          role: Role.User,
+        },
+        versions: {
+          index:      1,
+          messageIds: [3, 5, 7]
+        },
+      },
+    });
+
+    expect(wrapper.find('[data-testid="rancher-ai-ui-chat-message-versions-label"]').text()).toBe('ai.message.versions.label');
+
+    await wrapper.find('[data-testid="rancher-ai-ui-chat-message-versions-next"]').trigger('click');
+
+    expect(wrapper.emitted('select:version')?.[0]).toStrictEqual([7]);
+  });
 });
\ No newline at end of file
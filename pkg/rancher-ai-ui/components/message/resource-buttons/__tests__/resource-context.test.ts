@@ -13,7 +13,10 @@ import {
   normalizeNamespace,
   getProduct,
   getDetailLocation,
-  getKnownRoute
+  getKnownRoute,
+  canListSchema,
+  getListLocation,
+  loadClusterSchema
 } from '../resource-context';
 import type { Store as VuexStore } from 'vuex';
 
@@ -22,6 +25,7 @@ jest.mock('../../../../utils/log', () => ({ warn: jest.fn() }));
 type Store = VuexStore<any> & { rootGetters?: Record<string, string> };
 
 interface Schema {
+  collectionMethods?: string[];
   attributes: {
     crd?: boolean | string;
     namespaced?: boolean;
@@ -1027,6 +1031,111 @@ describe('resource-context', () => {
     });
   });
 
+  describe('canListSchema', () => {
+    it('should return true when the schema has the GET collection method', () => {
+      const schema: Schema = {
+        collectionMethods: ['get', 'POST'],
+        attributes:        {}
+      };
+
+      expect(canListSchema(schema)).toBe(true);
+    });
+
+    it('should return false when the schema has no GET collection method', () => {
+      const schema: Schema = {
+        collectionMethods: ['POST'],
+        attributes:        {}
+      };
+
+      expect(canListSchema(schema)).toBe(false);
+      expect(canListSchema({ attributes: {} })).toBe(false);
+    });
+
+    it('should return false when schema is null', () => {
+      expect(canListSchema(null)).toBe(false);
+    });
+  });
+
+  describe('loadClusterSchema', () => {
+    it('should load the schema from the downstream cluster', async() => {
+      const schema = { id: 'apps.deployment' };
+
+      (mockStore.dispatch as jest.Mock).mockResolvedValue(schema as never);
+
+      const result = await loadClusterSchema(mockStore, 'apps.deployment', 'c-m-abc');
+
+      expect(mockStore.dispatch).toHaveBeenCalledWith('cluster/request', { url: '/k8s/clusters/c-m-abc/v1/schemas/apps.deployment' });
+      expect(result).toBe(schema);
+    });
+
+    it('should fall back to the management schema when the cluster request fails', async() => {
+      (mockStore.dispatch as jest.Mock).mockRejectedValue(new Error('Not found') as never);
+      mockStore.getters[`${ STORE.MANAGEMENT }/schemaFor`] = jest.fn(() => ({ id: MANAGEMENT.USER }));
+
+      const result = await loadClusterSchema(mockStore, NORMAN.USER, 'c-m-abc');
+
+      expect(mockStore.getters[`${ STORE.MANAGEMENT }/schemaFor`]).toHaveBeenCalledWith(MANAGEMENT.USER);
+      expect(result).toStrictEqual({ id: MANAGEMENT.USER });
+    });
+
+    it('should use the management schema for the local cluster', async() => {
+      mockStore.getters[`${ STORE.MANAGEMENT }/schemaFor`] = jest.fn(() => undefined);
+
+      const result = await loadClusterSchema(mockStore, 'pod', 'local');
+
+      expect(mockStore.dispatch).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getListLocation', () => {
+    it('should return the list location of a cluster product', () => {
+      const result = getListLocation({
+        name:    'explorer',
+        inStore: STORE.CLUSTER
+      }, STORE.MANAGEMENT, 'apps.deployment', 'c-m-abc');
+
+      expect(result).toStrictEqual({
+        name:   'c-cluster-product-resource',
+        params: {
+          cluster:  'c-m-abc',
+          product:  'explorer',
+          resource: 'apps.deployment'
+        }
+      });
+    });
+
+    it('should not return a list location for a cluster product without cluster', () => {
+      const result = getListLocation({
+        name:    'harvester',
+        inStore: 'harvester'
+      }, 'harvester', 'kubevirt.io.virtualmachine');
+
+      expect(result).toBeNull();
+    });
+
+    it('should use the _ cluster and the management type for management products', () => {
+      const result = getListLocation({
+        name:    'auth',
+        inStore: STORE.MANAGEMENT
+      }, STORE.MANAGEMENT, NORMAN.USER, 'local');
+
+      expect(result).toStrictEqual({
+        name:   'c-cluster-product-resource',
+        params: {
+          cluster:  '_',
+          product:  'auth',
+          resource: MANAGEMENT.USER
+        }
+      });
+    });
+
+    it('should return null when product or type is missing', () => {
+      expect(getListLocation(undefined, STORE.MANAGEMENT, 'pod', 'local')).toBeNull();
+      expect(getListLocation({ name: 'explorer' }, STORE.MANAGEMENT, '', 'local')).toBeNull();
+    });
+  });
+
   describe('getDetailLocation', () => {
     beforeEach(() => {
       mockStore.getters[`${ STORE.MANAGEMENT }/classify`] = jest.fn(() => {
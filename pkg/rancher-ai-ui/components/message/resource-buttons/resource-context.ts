@@ -7,6 +7,7 @@ import { warn } from '../../../utils/log';
 type Store = VuexStore<any> & { rootGetters?: Record<string, string> };
 
 interface Schema {
+  collectionMethods?: string[];
   attributes?: {
     crd?: boolean | string;
     namespaced?: boolean;
@@ -23,6 +24,11 @@ interface RancherResource {
   nameDisplay?: string;
 }
 
+interface ListLocation {
+  name: string;
+  params: Record<string, string>;
+}
+
 interface DetailLocation {
   name: string;
   params?: Record<string, string>;
@@ -109,6 +115,31 @@ export function getManagementSchema(store: Store, type = '') {
   return store.getters[`${ STORE.MANAGEMENT }/schemaFor`](managementType);
 }
 
+/**
+ * Load the schema of a resource type from the given downstream cluster, to check the user permissions in that cluster.
+ * Falls back to the management schemas for the local cluster and the global types (e.g. users, Fleet and provisioning clusters).
+ *
+ * @param store - The Vuex store instance
+ * @param type - The resource type
+ * @param cluster - The cluster id
+ * @returns The schema if found, otherwise null
+ */
+export async function loadClusterSchema(store: Store, type = '', cluster = '') {
+  if (cluster && cluster !== 'local') {
+    try {
+      const schema = await store.dispatch('cluster/request', { url: `/k8s/clusters/${ cluster }/v1/schemas/${ type }` });
+
+      if (schema) {
+        return schema;
+      }
+    } catch (e) {
+      warn(`Failed to load schema for ${ type } via cluster API:`, e);
+    }
+  }
+
+  return getManagementSchema(store, type) || null;
+}
+
 /**
  * Get the store context for a given product.
  * If the product is a Rancher product, return 'management'. Otherwise, return the product's inStore value.
@@ -160,6 +191,17 @@ export function normalizeType(inStore: string, type = ''): string {
   return type;
 }
 
+/**
+ * Check if the user can list the resources of the given schema.
+ * Steve only returns the GET collection method when the user is allowed to list the type.
+ *
+ * @param schema - The schema object for the resource type
+ * @returns True if the user can list the resources, false otherwise
+ */
+export function canListSchema(schema: Schema | null): boolean {
+  return !!schema?.collectionMethods?.find((verb) => verb?.toUpperCase() === 'GET');
+}
+
 /**
  * Normalize the resource ID based on the schema and store context.
  * For namespaced resources, the ID is 'namespace/name'.
@@ -233,6 +275,38 @@ export function getProduct(store: Store, schema: Schema | null, resourceType = '
   return getProductByName(store, PRODUCT.EXPLORER);
 }
 
+/**
+ * Get the list location for a given resource type.
+ * Types of products stored in management (e.g. Fleet, users, provisioning clusters) are listed in the '_' cluster,
+ * the other products (e.g. explorer, harvester) need the cluster the resources belong to.
+ *
+ * @param product - The product that owns the resource type
+ * @param inStore - The store context (e.g., 'management', 'harvester')
+ * @param type - The resource type to list
+ * @param cluster - The cluster id (used for products which are not stored in management)
+ * @returns The list location object if available, otherwise null
+ */
+export function getListLocation(product: Product | undefined, inStore: string, type = '', cluster = ''): ListLocation | null {
+  if (!product || !type) {
+    return null;
+  }
+
+  const isManagementProduct = !product.inStore || product.inStore === STORE.MANAGEMENT;
+
+  if (!isManagementProduct && !cluster) {
+    return null;
+  }
+
+  return {
+    name:   'c-cluster-product-resource',
+    params: {
+      cluster:  isManagementProduct ? '_' : cluster,
+      product:  product.name,
+      resource: normalizeType(inStore, type),
+    }
+  };
+}
+
 /**
  * Get the detail location for a given resource, handling built-in product's routes.
  *
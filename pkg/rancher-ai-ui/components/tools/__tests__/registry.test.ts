@@ -0,0 +1,74 @@
+import {
+  describe, it, expect, jest, beforeEach
+} from '@jest/globals';
+import { UITool } from '../../../types';
+import { ToolName, UI_TOOL_PLUGIN_TYPE, UIToolRegistration } from '../types';
+import {
+  loadPluginUITools, registeredUITool, registeredUITools, registerUITool, unregisterUITool
+} from '../registry';
+
+const definition = (name: string): UITool => ({
+  name,
+  description: `${ name } tool`,
+  prompt:      'TOOL SCOPE: single-resource',
+  category:    'viewer',
+  revision:    1,
+  enabled:     true,
+  metadata:    {},
+  schema:      { properties: {} },
+});
+
+const registration = (name: string): UIToolRegistration => ({
+  definition: definition(name),
+  component:  { template: '<div />' },
+});
+
+describe('UI tools registry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    registeredUITools().forEach((r) => unregisterUITool(r.definition.name));
+  });
+
+  it('should register and unregister a tool', () => {
+    expect(registerUITool(registration('show-backup'))).toBe(true);
+    expect(registeredUITool('show-backup')?.definition.name).toBe('show-backup');
+    expect(registeredUITools()).toHaveLength(1);
+
+    unregisterUITool('show-backup');
+
+    expect(registeredUITool('show-backup')).toBeUndefined();
+  });
+
+  it('should not replace the built-in tools', () => {
+    expect(registerUITool(registration(ToolName.ShowYaml))).toBe(false);
+    expect(registeredUITool(ToolName.ShowYaml)).toBeUndefined();
+  });
+
+  it('should reject invalid registrations', () => {
+    expect(registerUITool({ definition: definition('no-component') } as UIToolRegistration)).toBe(false);
+    expect(registerUITool({ component: {} } as UIToolRegistration)).toBe(false);
+    expect(registeredUITools()).toHaveLength(0);
+  });
+
+  it('should load the tools registered with plugin.register', () => {
+    const dynamic: Record<string, any> = {
+      'show-backup':  registration('show-backup'),
+      'show-restore': () => registration('show-restore'),
+      'other-name':   registration('show-snapshot'),
+    };
+    const plugin = {
+      listDynamic: (type: string) => (type === UI_TOOL_PLUGIN_TYPE ? Object.keys(dynamic) : []),
+      getDynamic:  (type: string, name: string) => (type === UI_TOOL_PLUGIN_TYPE ? dynamic[name] : undefined),
+    };
+
+    loadPluginUITools(plugin);
+
+    expect(registeredUITools().map((r) => r.definition.name)).toStrictEqual(['show-backup', 'show-restore']);
+  });
+
+  it('should ignore a missing plugin manager', () => {
+    loadPluginUITools(undefined);
+
+    expect(registeredUITools()).toHaveLength(0);
+  });
+});
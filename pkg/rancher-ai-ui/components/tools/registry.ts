@@ -0,0 +1,90 @@
+import { shallowReactive } from 'vue';
+import { UITool } from '../../types';
+import { warn } from '../../utils/log';
+import toolsConfigData from '../../ui-tools.json';
+import { UI_TOOL_PLUGIN_TYPE, UIToolRegistration } from './types';
+
+/**
+ * Position of the registered tools without an order, between the resource tools and the suggestions.
+ */
+export const DEFAULT_TOOL_ORDER = 50;
+
+const BUILTIN_TOOLS = new Map((toolsConfigData.tools as UITool[]).map((tool) => [tool.name, tool]));
+
+const registeredTools = shallowReactive(new Map<string, UIToolRegistration>());
+
+/**
+ * Registers a tool contributed by another extension.
+ * Built-in tools can't be replaced.
+ *
+ * @param registration The tool definition and component
+ * @returns true if the tool was registered
+ */
+export function registerUITool(registration: UIToolRegistration): boolean {
+  const name = registration?.definition?.name;
+
+  if (!name || !registration.component) {
+    warn('Invalid UI tool registration, a definition with a name and a component are required:', registration);
+
+    return false;
+  }
+
+  if (BUILTIN_TOOLS.has(name)) {
+    warn(`UI tool ${ name } is a built-in tool and can't be registered`);
+
+    return false;
+  }
+
+  registeredTools.set(name, registration);
+
+  return true;
+}
+
+export function unregisterUITool(name: string) {
+  registeredTools.delete(name);
+}
+
+export function registeredUITool(name: string): UIToolRegistration | undefined {
+  return registeredTools.get(name);
+}
+
+/**
+ * Returns the definition of a bundled or registered tool.
+ */
+export function uiToolDefinition(name: string): UITool | undefined {
+  return BUILTIN_TOOLS.get(name) || registeredTools.get(name)?.definition;
+}
+
+export function registeredUITools(): UIToolRegistration[] {
+  return [...registeredTools.values()];
+}
+
+/**
+ * Registers the tools that other extensions added with `plugin.register('rancher-ai-ui-tool', name, registration)`.
+ * The registration can also be a function returning it.
+ *
+ * Extensions are loaded in any order, so the plugin registry is read when the tools are needed, not when this extension is loaded.
+ *
+ * @param plugin The Rancher plugin manager (store.$plugin)
+ */
+export function loadPluginUITools(plugin: any) {
+  const names: string[] = plugin?.listDynamic?.(UI_TOOL_PLUGIN_TYPE) || [];
+
+  names
+    .filter((name) => !registeredTools.has(name))
+    .forEach((name) => {
+      let registration = plugin.getDynamic(UI_TOOL_PLUGIN_TYPE, name);
+
+      if (typeof registration === 'function') {
+        registration = registration();
+      }
+
+      if (registration?.definition?.name !== name) {
+        warn(`UI tool ${ name } is registered with a different definition name:`, registration?.definition?.name);
+
+        return;
+      }
+
+      registerUITool(registration);
+    });
+}
@@ -1,4 +1,6 @@
 /* eslint-disable no-unused-vars */
+import type { Component } from 'vue';
+import type { UITool } from '../../types';
 
 /**
  * The name of the tools that can be used in Rancher AI Chat messages.
@@ -11,5 +13,43 @@ export const enum ToolName {
   Explore = 'explore',
   ShowLogs = 'open-console-logs',
   Suggestions = 'suggestions',
-  SelectOption = 'select-option'
+  SelectOption = 'select-option',
+  ResourceTable = 'resource-table',
+  ResourceStatus = 'resource-status'
+}
+
+/**
+ * Type of the tools registered by other extensions with `plugin.register`.
+ */
+export const UI_TOOL_PLUGIN_TYPE = 'rancher-ai-ui-tool';
+
+/**
+ * A tool contributed by another extension.
+ *
+ * The definition is merged into the UI tools ConfigMap, so the agent can call the tool,
+ * and the component renders the tool calls in the chat messages.
+ * The component receives the `tool`, `message`, `label` and `disabled` props and can emit `action` events.
+ */
+export interface UIToolRegistration {
+  definition: UITool; // Same format as the tools in ui-tools.json
+  component: Component | (() => Promise<Component | { default: Component }>); // The component, or a function loading it
+  label?: string; // Default label, used when the tool call has none
+  order?: number; // Position among the tools of a message, lower first
+}
+
+/**
+ * A column of the resource-table tool, the name is the key of the row values.
+ */
+export interface ResourceTableColumn {
+  name: string;
+  label?: string;
+}
+
+/**
+ * A row of the resource-table tool, one per resource.
+ */
+export interface ResourceTableRow {
+  name: string;
+  namespace?: string;
+  [key: string]: any;
 }
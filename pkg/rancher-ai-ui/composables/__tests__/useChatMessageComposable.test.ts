@@ -2,7 +2,7 @@ import {
   describe, it, expect, beforeEach, afterEach, jest
 } from '@jest/globals';
 import { computed, defineComponent } from 'vue';
-import { mount } from '@vue/test-utils';
+import { flushPromises, mount } from '@vue/test-utils';
 import { Role } from '../../types';
 import { useChatMessageComposable } from '../useChatMessageComposable';
 
@@ -46,6 +46,9 @@ describe('useChatMessageComposable', () => {
         'management/byId':  jest.fn(),
         'auth/principalId': jest.fn(),
         'i18n/t':           jest.fn(),
+
+        'rancher-ai-ui/chat/messages': jest.fn(() => ({})),
+        'rancher-ai-ui/chat/focus':    jest.fn(() => null),
       },
       commit:   jest.fn(),
       dispatch: jest.fn()
@@ -522,10 +525,10 @@ describe('useChatMessageComposable', () => {
     });
 
     it('should handle invalid auth URL in metadata', async() => {
-      mockStore.getters['rancher-ai-ui/chat/metadata'] = {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
         chatId: 'chat-1',
         agents: []
-      };
+      }));
       mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => ({
         id:        'msg-1',
         completed: false
@@ -606,10 +609,10 @@ describe('useChatMessageComposable', () => {
     });
 
     it('should expose isChatInitialized computed', () => {
-      mockStore.getters['rancher-ai-ui/chat/metadata'] = {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
         chatId: 'chat-1',
         agents: []
-      };
+      }));
 
       mockComponent = mount(createTestComponent());
       const { isChatInitialized } = mockComponent.vm;
@@ -797,6 +800,37 @@ describe('useChatMessageComposable', () => {
       );
     });
 
+    it('should show the data of a tag partially received before the connection dropped', async() => {
+      const message = {
+        id:             1,
+        messageContent: '',
+        thinking:       false,
+        completed:      false
+      };
+
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId: 'chat-1',
+        agents: []
+      }));
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => message);
+
+      mockComponent = mount(createTestComponent());
+      const { onmessage, onclose } = mockComponent.vm;
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+      await onmessage({ data: 'Hello <mcp-res' } as MessageEvent);
+
+      expect(message.messageContent).toBe('Hello ');
+
+      onclose({
+        code:   1006,
+        reason: ''
+      } as CloseEvent);
+
+      expect(message.messageContent).toBe('Hello <mcp-res');
+      expect(message.completed).toBe(true);
+    });
+
     it('should complete WebSocket session properly', async() => {
       mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => ({
         id:        'msg-1',
@@ -815,6 +849,262 @@ describe('useChatMessageComposable', () => {
     });
   });
 
+  describe('function: stopGeneration', () => {
+    let message: any;
+
+    beforeEach(() => {
+      message = {
+        id:             'msg-1',
+        messageContent: 'Partial response\n',
+        thinking:       true,
+        completed:      false
+      };
+
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId: 'chat-1',
+        agents: []
+      }));
+      mockStore.getters['rancher-ai-ui/chat/messages'] = jest.fn(() => ({}));
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => message);
+    });
+
+    it('should send the abort event and mark the current message as stopped', async() => {
+      mockComponent = mount(createTestComponent());
+      const { onmessage, stopGeneration } = mockComponent.vm;
+
+      const mockWs = {
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any;
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+
+      mockStore.commit.mockClear();
+
+      stopGeneration(mockWs);
+
+      expect(mockWs.send).toHaveBeenCalledWith('__abort__');
+      expect(message).toStrictEqual(expect.objectContaining({
+        messageContent: 'Partial response',
+        thinking:       false,
+        completed:      true,
+        stopped:        true
+      }));
+      expect(mockStore.commit).toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/setProcessingState',
+        expect.objectContaining({ processingState: expect.objectContaining({ phase: 'idle' }) })
+      );
+      expect(mockStore.commit).not.toHaveBeenCalledWith('rancher-ai-ui/connection/close', expect.anything());
+    });
+
+    it('should ignore the remaining frames of the stopped response', async() => {
+      mockComponent = mount(createTestComponent());
+      const { onmessage, stopGeneration } = mockComponent.vm;
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+
+      stopGeneration({
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any);
+
+      mockStore.commit.mockClear();
+
+      await onmessage({ data: 'more text</message>' } as MessageEvent);
+
+      expect(message.messageContent).toBe('Partial response');
+      expect(mockStore.commit).not.toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/setProcessingState',
+        expect.anything()
+      );
+    });
+
+    it('should ignore the tools and MCP results of the stopped response until the next message', async() => {
+      mockComponent = mount(createTestComponent());
+      const { onmessage, stopGeneration } = mockComponent.vm;
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+
+      stopGeneration({
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any);
+
+      mockStore.commit.mockClear();
+
+      await onmessage({ data: '<mcp-response>{"kind":"Pod","name":"p1"}</mcp-response>' } as MessageEvent);
+      await onmessage({ data: '<ui-tools>[{"name":"suggestions","args":{}}]</ui-tools>' } as MessageEvent);
+      await onmessage({ data: '<mcp-doclink>https://ranchermanager.docs.rancher.com</mcp-doclink></message>' } as MessageEvent);
+
+      expect(message.relatedResourcesActions).toBeUndefined();
+      expect(message.tools).toBeUndefined();
+      expect(message.sourceLinks).toBeUndefined();
+      expect(mockStore.commit).not.toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/setProcessingState',
+        expect.anything()
+      );
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+
+      expect(mockStore.commit).toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/setProcessingState',
+        expect.objectContaining({ processingState: expect.objectContaining({ phase: 'working' }) })
+      );
+    });
+  });
+
+  describe('Chat title', () => {
+    const originalFetch = window.fetch;
+
+    let messages: Record<string, any>;
+
+    function mockChat(name: string) {
+      const fetchMock = jest.fn(() => Promise.resolve({
+        ok:   true,
+        json: () => Promise.resolve({
+          id: 'chat-1',
+          name
+        })
+      }));
+
+      window.fetch = fetchMock as any;
+
+      return fetchMock;
+    }
+
+    async function completeFirstReply() {
+      mockComponent = mount(createTestComponent());
+      const { onmessage } = mockComponent.vm;
+
+      await onmessage({ data: '<message>' } as MessageEvent);
+      await onmessage({ data: '</message>' } as MessageEvent);
+      await flushPromises();
+    }
+
+    beforeEach(() => {
+      messages = {
+        1: {
+          id:             1,
+          role:           Role.User,
+          messageContent: 'List the pods',
+          parentId:       null
+        },
+        2: {
+          id:             2,
+          role:           Role.Assistant,
+          summaryContent: 'Pods health check',
+          parentId:       1,
+          completed:      false
+        },
+      };
+
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId:      'chat-1',
+        agents:      [],
+        storageType: 'postgres'
+      }));
+      mockStore.getters['rancher-ai-ui/chat/messages'] = jest.fn(() => messages);
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(({ messageId }: any) => messages[messageId]);
+      mockStore.dispatch = jest.fn(() => Promise.resolve(2));
+    });
+
+    afterEach(() => {
+      window.fetch = originalFetch;
+    });
+
+    it('should name the chat after its first exchange while it has the name given by the agent', async() => {
+      const fetchMock = mockChat('List the pods');
+
+      await completeFirstReply();
+
+      expect(fetchMock).toHaveBeenLastCalledWith(expect.stringMatching(/\/chats\/chat-1$/), expect.objectContaining({
+        method: 'PUT',
+        body:   JSON.stringify({ name: 'Pods health check' })
+      }));
+    });
+
+    it('should keep the name given by the user when the first reply is regenerated', async() => {
+      const fetchMock = mockChat('My pods');
+
+      await completeFirstReply();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ method: 'PUT' }));
+    });
+  });
+
+  describe('Message branches', () => {
+    it('should reply to the history id of the live messages when regenerating a reply', async() => {
+      const messages: Record<string, any> = {
+        1: {
+          id:             1,
+          role:           Role.User,
+          messageContent: 'List the pods',
+          parentId:       null
+        },
+        2: {
+          id:        2,
+          role:      Role.Assistant,
+          parentId:  1,
+          completed: false
+        },
+        3: {
+          id:             3,
+          role:           Role.User,
+          messageContent: 'And the services?',
+          parentId:       2
+        },
+        4: {
+          id:        4,
+          role:      Role.Assistant,
+          parentId:  3,
+          completed: true
+        },
+      };
+
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId: 'chat-1',
+        agents: []
+      }));
+      mockStore.getters['rancher-ai-ui/chat/messages'] = jest.fn(() => messages);
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(({ messageId }: any) => messages[messageId]);
+      mockStore.dispatch = jest.fn(() => Promise.resolve(2));
+
+      mockComponent = mount(createTestComponent());
+      const { onmessage, regenerateMessage } = mockComponent.vm;
+
+      // The agent sends the history ids of the live reply and of its prompt
+      await onmessage({ data: '<message>' } as MessageEvent);
+      await onmessage({ data: '<agent-metadata>{"messageId":"h-2","parentId":"h-1"}</agent-metadata></message>' } as MessageEvent);
+
+      expect(messages[2].historyId).toBe('h-2');
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/chat/updateMessage', {
+        chatId:  'chat-1',
+        message: {
+          id:        1,
+          historyId: 'h-1'
+        }
+      });
+
+      const mockWs = {
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any;
+
+      regenerateMessage(messages[4], mockWs);
+
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/chat/fork', {
+        chatId:    'chat-1',
+        messageId: 4
+      });
+      expect(JSON.parse(mockWs.send.mock.calls[0][0] as string)).toStrictEqual(expect.objectContaining({
+        prompt:   'And the services?',
+        tags:     ['regenerate'],
+        parentId: 'h-2'
+      }));
+    });
+  });
+
   describe('function: onopen', () => {
     it('should send message via WebSocket when messageBox has content', () => {
       const messageBoxContent = JSON.stringify({ messageContent: 'User query' });
@@ -893,6 +1183,209 @@ describe('useChatMessageComposable', () => {
     });
   });
 
+  describe('Outbound queue', () => {
+    it('should enqueue the prompt when WebSocket is not open', async() => {
+      mockStore.dispatch = jest.fn(() => Promise.resolve(3));
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => ({
+        id:             3,
+        role:           Role.User,
+        messageContent: 'Hello'
+      }));
+
+      mockComponent = mount(createTestComponent());
+      const { sendMessage } = mockComponent.vm;
+
+      const mockWs = {
+        readyState: WebSocket.CLOSED,
+        send:       jest.fn()
+      } as any;
+
+      sendMessage('Hello', mockWs);
+      await flushPromises();
+
+      expect(mockWs.send).not.toHaveBeenCalled();
+      expect(mockStore.commit).toHaveBeenCalledWith(
+        'rancher-ai-ui/connection/enqueue',
+        expect.objectContaining({
+          chatId:    'chat-1',
+          messageId: 3,
+          kind:      'prompt',
+          payload:   expect.stringContaining('Hello'),
+          message:   expect.objectContaining({ messageContent: 'Hello' })
+        })
+      );
+      expect(mockStore.commit).toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/updateMessage',
+        expect.objectContaining({
+          message: expect.objectContaining({
+            id:             3,
+            deliveryStatus: 'pending'
+          })
+        })
+      );
+      expect(mockStore.commit).not.toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/setProcessingState',
+        expect.objectContaining({ processingState: expect.objectContaining({ phase: 'processing' }) })
+      );
+    });
+
+    it('should not enqueue the prompt when WebSocket is open', async() => {
+      mockStore.dispatch = jest.fn(() => Promise.resolve(3));
+
+      mockComponent = mount(createTestComponent());
+      const { sendMessage } = mockComponent.vm;
+
+      const mockWs = {
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any;
+
+      sendMessage('Hello', mockWs);
+      await flushPromises();
+
+      expect(mockWs.send).toHaveBeenCalledTimes(1);
+      expect(mockStore.commit).not.toHaveBeenCalledWith('rancher-ai-ui/connection/enqueue', expect.anything());
+    });
+
+    it('should flush queued messages in order when the connection opens', () => {
+      mockStore.getters['rancher-ai-ui/chat/messageBox'] = jest.fn(() => null);
+      mockStore.getters['rancher-ai-ui/connection/queue'] = jest.fn(() => [
+        {
+          chatId:    'chat-1',
+          messageId: 1,
+          kind:      'prompt',
+          payload:   'first'
+        },
+        {
+          chatId:    'chat-1',
+          messageId: 2,
+          kind:      'confirmation',
+          payload:   'second'
+        },
+      ]);
+
+      mockComponent = mount(createTestComponent());
+      const { onopen } = mockComponent.vm;
+
+      const mockWs = {
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any;
+
+      onopen({ target: mockWs } as any);
+
+      expect(mockWs.send).toHaveBeenNthCalledWith(1, 'first');
+      expect(mockWs.send).toHaveBeenNthCalledWith(2, 'second');
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/connection/dequeue', {
+        chatId:    'chat-1',
+        messageId: 1
+      });
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/connection/dequeue', {
+        chatId:    'chat-1',
+        messageId: 2
+      });
+    });
+
+    it('should show again the prompts restored after a page reload and drop the confirmations', async() => {
+      const messages = {
+        1: {
+          id:        1,
+          role:      Role.Assistant,
+          historyId: 'h-1'
+        }
+      };
+
+      mockStore.getters['rancher-ai-ui/chat/messageBox'] = jest.fn(() => null);
+      mockStore.getters['rancher-ai-ui/chat/messages'] = jest.fn(() => messages);
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId: 'agent-chat-1',
+        agents: []
+      }));
+      mockStore.getters['rancher-ai-ui/connection/queue'] = jest.fn(() => [
+        {
+          chatId:        'chat-1',
+          historyChatId: 'agent-chat-1',
+          messageId:     1,
+          kind:          'confirmation',
+          payload:       'yes',
+          restored:      true
+        },
+        {
+          chatId:        'chat-1',
+          historyChatId: 'agent-chat-1',
+          messageId:     2,
+          kind:          'prompt',
+          payload:       JSON.stringify({
+            prompt:   'Hello',
+            parentId: 'h-0'
+          }),
+          message:  { messageContent: 'Hello' },
+          restored: true
+        },
+      ]);
+
+      mockComponent = mount(createTestComponent());
+      const { onmessage } = mockComponent.vm;
+
+      const mockWs = {
+        readyState: WebSocket.OPEN,
+        send:       jest.fn()
+      } as any;
+
+      // The tab is connected to the chat of the restored messages
+      await onmessage({
+        data:   '<chat-metadata>{"chatId":"agent-chat-1","agents":[]}</chat-metadata>',
+        target: mockWs
+      } as any);
+
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/connection/adoptQueue', {
+        chatId:        'chat-1',
+        historyChatId: 'agent-chat-1'
+      });
+      expect(mockWs.send).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockWs.send.mock.calls[0][0] as string)).toStrictEqual({
+        prompt:   'Hello',
+        parentId: 'h-1'
+      });
+      expect(mockStore.commit).toHaveBeenCalledWith('rancher-ai-ui/connection/dequeue', {
+        chatId:    'chat-1',
+        messageId: 1
+      });
+      expect(mockStore.dispatch).toHaveBeenCalledWith('rancher-ai-ui/chat/addMessage', {
+        chatId:  'chat-1',
+        message: {
+          role:           Role.User,
+          messageContent: 'Hello'
+        }
+      });
+    });
+
+    it('should restore failed confirmations to pending on retry', () => {
+      mockComponent = mount(createTestComponent());
+      const { retryMessage } = mockComponent.vm;
+
+      retryMessage({
+        id:             5,
+        role:           Role.Assistant,
+        deliveryStatus: 'failed',
+        confirmation:   {
+          actions: [],
+          status:  'confirmed'
+        }
+      }, null);
+
+      expect(mockStore.commit).toHaveBeenCalledWith(
+        'rancher-ai-ui/chat/updateMessage',
+        expect.objectContaining({
+          message: expect.objectContaining({
+            id:           5,
+            confirmation: expect.objectContaining({ status: 'pending' })
+          })
+        })
+      );
+    });
+  });
+
   describe('function: ensureWelcomeMessage', () => {
     it('should call fetchUIToolsCalls when welcome message is added', async() => {
       // Setup: no messages, has tools selector
@@ -1011,16 +1504,16 @@ describe('useChatMessageComposable', () => {
     });
 
     it('should NOT call ensureWelcomeMessage when chat already initialized', async() => {
-      mockStore.getters['rancher-ai-ui/chat/metadata'] = {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
         chatId: 'chat-1', // chat is initialized
         agents: []
-      };
+      }));
       mockStore.dispatch.mockClear();
 
       mockComponent = mount(createTestComponent());
       const { onmessage } = mockComponent.vm;
 
-      const dataEvent = { data: '<message>Response from AI</message>' } as MessageEvent;
+      const dataEvent = { data: 'Response from AI' } as MessageEvent;
 
       // Trigger onmessage for initialized chat
       await onmessage(dataEvent);
@@ -1049,10 +1542,10 @@ describe('useChatMessageComposable', () => {
     });
 
     it('should process message data when chat is initialized', async() => {
-      mockStore.getters['rancher-ai-ui/chat/metadata'] = {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
         chatId: 'chat-1',
         agents: []
-      };
+      }));
 
       mockComponent = mount(createTestComponent());
       const { onmessage } = mockComponent.vm;
@@ -1069,6 +1562,33 @@ describe('useChatMessageComposable', () => {
         expect.any(Object)
       );
     });
+
+    it('should process JSON frames when the JSON protocol is negotiated', async() => {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
+        chatId:   'chat-1',
+        agents:   [],
+        protocol: {
+          name:    'json',
+          version: 1
+        }
+      }));
+      mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => ({ id: 1 }));
+
+      mockComponent = mount(createTestComponent());
+      const { onmessage } = mockComponent.vm;
+
+      mockStore.dispatch.mockClear();
+
+      await onmessage({ data: '{"type":"message-start","seq":1}' } as MessageEvent);
+      // Duplicate frame, dropped
+      await onmessage({ data: '{"type":"message-start","seq":1}' } as MessageEvent);
+
+      const addMessageCalls = mockStore.dispatch.mock.calls.filter(
+        (call: any[]) => call[0] === 'rancher-ai-ui/chat/addMessage'
+      );
+
+      expect(addMessageCalls.length).toBe(1);
+    });
   });
 
   describe('function: processChatMetadata', () => {
@@ -1086,7 +1606,10 @@ describe('useChatMessageComposable', () => {
       // VERIFY: setMetadata was called
       expect(mockStore.commit).toHaveBeenCalledWith(
         'rancher-ai-ui/chat/setMetadata',
-        expect.objectContaining({ chatId: 'chat-1' })
+        {
+          chatId:   'chat-1',
+          metadata: expect.objectContaining({ chatId: 'chat-1' })
+        }
       );
     });
 
@@ -1109,10 +1632,10 @@ describe('useChatMessageComposable', () => {
   describe('function: processMessageData - Tag parsing', () => {
     beforeEach(() => {
       // Setup: chat already initialized
-      mockStore.getters['rancher-ai-ui/chat/metadata'] = {
+      mockStore.getters['rancher-ai-ui/chat/metadata'] = jest.fn(() => ({
         chatId: 'chat-1',
         agents: []
-      };
+      }));
       mockStore.getters['rancher-ai-ui/chat/messages'] = jest.fn(() => ({}));
       mockStore.getters['rancher-ai-ui/chat/message'] = jest.fn(() => ({
         id:              'msg-1',
@@ -2,12 +2,13 @@ import { ComputedRef } from 'vue';
 import { AGENT_NAME, AGENT_NAMESPACE, AGENT_REST_API_PATH } from '../product';
 import { error } from '../utils/log';
 import {
-  Agent, AgentSettings, AIAgentAPIEvent, Context, HistoryChat, HistoryChatMessage, LLMProvider, Message,
+  Agent, AgentSettings, AIAgentAPIEvent, ChatExport, Context, HistoryChat, HistoryChatMessage, HistoryChatPage, HistorySearchResult, LLMProvider, Message,
   ToolCall,
   ToolsConfig,
 } from '../types';
 import { Settings } from '../pages/settings/types';
 import { buildMessageFromHistoryMessage } from '../utils/format';
+import { parseChatExport } from '../utils/export';
 
 interface LLMOptions {
   url?: string;
@@ -48,8 +49,9 @@ interface UIToolsCallsPayload {
  *
  * - llm: fetch available models for the active LLM, with query parameters based on the active LLM.
  * - settings: fetch settings
- * - chat: fetch all chats, update a chat, delete a chat
- * - messages: fetch messages for a chat
+ * - chat: fetch all chats, fetch a chat, search chats, update a chat, delete a chat
+ * - messages: fetch messages for a chat, update the labels and tags of a message
+ * - shares: share a read-only snapshot of a chat, fetch a shared chat
  *
  * @param agents Reactive reference to the list of agents, used for message formatting in the chat messages endpoint.
  * @returns Composable for managing chat API interactions.
@@ -317,9 +319,28 @@ export function useAIAgentApiComposable(agents?: ComputedRef<Agent[]>) {
     }
   }
 
-  async function fetchChats(): Promise<HistoryChat[]> {
+  /**
+   * Fetches a page of the chat history, most recent first.
+   *
+   * Agents which do not paginate the chats return them all as a list.
+   *
+   * @param args.cursor Cursor returned with the previous page, the first page is fetched if not set
+   * @param args.limit Maximum number of chats to fetch
+   * @returns The page of chats and the cursor of the next page
+   */
+  async function fetchChats(args: { cursor?: string | null, limit?: number } = {}): Promise<HistoryChatPage> {
     try {
-      const data = await fetch(`${ apiPath }/chats`);
+      const params = new URLSearchParams();
+
+      if (args.limit) {
+        params.set('limit', `${ args.limit }`);
+      }
+      if (args.cursor) {
+        params.set('cursor', args.cursor);
+      }
+
+      const query = params.toString();
+      const data = await fetch(`${ apiPath }/chats${ query ? `?${ query }` : '' }`);
 
       if (!data.ok) {
         const errorMessage = await data.text();
@@ -327,18 +348,79 @@ export function useAIAgentApiComposable(agents?: ComputedRef<Agent[]>) {
         throw new Error(errorMessage);
       }
 
-      const all = await data.json() as HistoryChat[];
+      const body = await data.json() as HistoryChat[] | Partial<HistoryChatPage>;
+      const page: HistoryChatPage = Array.isArray(body) ? {
+        chats:      body,
+        nextCursor: null,
+        total:      body.length
+      } : {
+        chats:      body.chats || [],
+        nextCursor: body.nextCursor || null,
+        total:      body.total
+      };
 
-      return all
-        .filter((chat) => !!chat.name)
-        .map((chat) => ({
-          ...chat,
-          name: chat.name?.split('\n')[0].slice(0, 500).trim(),
-        }));
+      return {
+        ...page,
+        chats: page.chats
+          .filter((chat) => !!chat.name)
+          .map((chat) => ({
+            ...chat,
+            name: chat.name?.split('\n')[0].slice(0, 500).trim(),
+          }))
+      };
     } catch (err) {
       error('Failed to fetch chats:', err);
 
-      return [];
+      return {
+        chats:      [],
+        nextCursor: null
+      };
+    }
+  }
+
+  /**
+   * Searches the chat names and the message bodies.
+   *
+   * @param query Search query
+   * @returns The matching chats, null if the agent does not support search
+   */
+  async function searchChats(query: string): Promise<HistorySearchResult[] | null> {
+    try {
+      const data = await fetch(`${ apiPath }/chats/search?q=${ encodeURIComponent(query) }`);
+
+      if (data.status === 404 || data.status === 405 || data.status === 501) {
+        return null;
+      }
+
+      if (!data.ok) {
+        const errorMessage = await data.text();
+
+        throw new Error(errorMessage);
+      }
+
+      return await data.json() as HistorySearchResult[];
+    } catch (err) {
+      error('Failed to search chats:', err);
+
+      return null;
+    }
+  }
+
+  async function fetchChat(chatId: string): Promise<HistoryChat | null> {
+    try {
+      const data = await fetch(`${ apiPath }/chats/${ chatId }`);
+
+      if (!data.ok) {
+        const errorMessage = await data.text();
+
+        throw new Error(errorMessage);
+      }
+
+      return await data.json() as HistoryChat;
+    } catch (err) {
+      error('Failed to fetch chat:', err);
+
+      return null;
     }
   }
 
@@ -375,6 +457,8 @@ export function useAIAgentApiComposable(agents?: ComputedRef<Agent[]>) {
       }
     } catch (err) {
       error('Failed to delete chat:', err);
+
+      throw err;
     }
   }
 
@@ -398,6 +482,82 @@ export function useAIAgentApiComposable(agents?: ComputedRef<Agent[]>) {
     }
   }
 
+  async function updateChatMessage(chatId: string, messageId: string, payload: Partial<HistoryChatMessage>): Promise<HistoryChatMessage> {
+    try {
+      const data = await fetch(`${ apiPath }/chats/${ chatId }/messages/${ messageId }`, {
+        method:  'PUT',
+        body:    JSON.stringify(payload),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      if (!data.ok) {
+        const errorMessage = await data.text();
+
+        throw new Error(errorMessage);
+      }
+
+      return await data.json() as HistoryChatMessage;
+    } catch (err) {
+      error('Failed to update message:', err);
+
+      throw err;
+    }
+  }
+
+  /**
+   * Stores a read-only snapshot of a chat, which can be opened by other Rancher users.
+   *
+   * @param snapshot The chat, exported to JSON
+   * @returns The id of the shared chat
+   */
+  async function shareChat(snapshot: ChatExport): Promise<string> {
+    try {
+      const data = await fetch(`${ apiPath }/shares`, {
+        method:  'POST',
+        body:    JSON.stringify(snapshot),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      if (!data.ok) {
+        const errorMessage = await data.text();
+
+        throw new Error(errorMessage);
+      }
+
+      const { id } = await data.json() as { id: string };
+
+      return id;
+    } catch (err) {
+      error('Failed to share chat:', err);
+
+      throw err;
+    }
+  }
+
+  /**
+   * Fetches the snapshot of a shared chat.
+   *
+   * @param shareId The id of the shared chat
+   * @returns The chat export, null if it does not exist or is not valid
+   */
+  async function fetchSharedChat(shareId: string): Promise<ChatExport | null> {
+    try {
+      const data = await fetch(`${ apiPath }/shares/${ encodeURIComponent(shareId) }`);
+
+      if (!data.ok) {
+        const errorMessage = await data.text();
+
+        throw new Error(errorMessage);
+      }
+
+      return parseChatExport(await data.text());
+    } catch (err) {
+      error('Failed to fetch shared chat:', err);
+
+      return null;
+    }
+  }
+
   return {
     refreshMcpAuthenticationToken,
     fetchMcpAuthenticationMetadata,
@@ -410,8 +570,13 @@ export function useAIAgentApiComposable(agents?: ComputedRef<Agent[]>) {
     saveSettings,
     fetchUIToolsCalls,
     fetchChats,
+    fetchChat,
+    searchChats,
     fetchMessages,
+    updateChatMessage,
     updateChat,
     deleteChat,
+    shareChat,
+    fetchSharedChat,
   };
 }
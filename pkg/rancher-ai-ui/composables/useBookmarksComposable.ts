@@ -0,0 +1,123 @@
+import { computed, ComputedRef } from 'vue';
+import { useStore } from 'vuex';
+import { useI18n } from '@shell/composables/useI18n';
+import {
+  Agent, ChatMetadata, Message, MessageBookmark, StorageType
+} from '../types';
+import { bookmarkedMessages, bookmarkLabelsAndTags, findHistoryMessage } from '../utils/bookmark';
+import { isExportable } from '../utils/export';
+import { useAIAgentApiComposable } from './useAIAgentApiComposable';
+
+/**
+ * Composable for bookmarking the messages of a chat.
+ *
+ * Bookmarks are persisted in the tags and labels of the history messages, so they are restored when the chat is loaded.
+ *
+ * @param chatId The chat (tab) id
+ * @param agents Agents, to parse the history messages
+ * @returns Composable for managing the bookmarks of the chat.
+ */
+export function useBookmarksComposable(chatId: string, agents: ComputedRef<Agent[]>) {
+  const store = useStore();
+  const { t } = useI18n(store);
+
+  const { fetchMessages, updateChatMessage } = useAIAgentApiComposable(agents);
+
+  const chatMetadata = computed<ChatMetadata>(() => store.getters['rancher-ai-ui/chat/metadata']?.(chatId) || {});
+
+  const messages = computed(() => Object.values(store.getters['rancher-ai-ui/chat/messages'](chatId) || {}) as Message[]);
+
+  const bookmarks = computed(() => bookmarkedMessages(messages.value));
+
+  function updateMessage(message: Partial<Message>) {
+    store.commit('rancher-ai-ui/chat/updateMessage', {
+      chatId,
+      message
+    });
+  }
+
+  /**
+   * Returns the history message a message was stored as.
+   * The history id and labels of the messages streamed in the current session are resolved once, then kept on the message.
+   */
+  async function historyMessageOf(message: Message): Promise<Pick<Message, 'historyId' | 'tags' | 'labels'> | null> {
+    if (message.historyId && message.labels) {
+      return message;
+    }
+
+    const historyChatId = chatMetadata.value.chatId;
+
+    if (!historyChatId) {
+      return null;
+    }
+
+    const index = messages.value.findIndex((m) => m.id === message.id);
+    const path = messages.value.slice(0, index + 1).filter(isExportable);
+    const historyMessage = index >= 0 ? findHistoryMessage(path, await fetchMessages(historyChatId)) : null;
+
+    if (historyMessage?.historyId) {
+      updateMessage({
+        id:        message.id,
+        historyId: historyMessage.historyId,
+        tags:      historyMessage.tags,
+        labels:    historyMessage.labels || {},
+      });
+    }
+
+    return historyMessage;
+  }
+
+  /**
+   * Adds, updates or removes the bookmark of a message.
+   * The bookmark is shown immediately and reverted if it can't be persisted.
+   *
+   * @param message The message
+   * @param bookmark The bookmark, null to remove it
+   */
+  async function bookmarkMessage(message: Message, bookmark: MessageBookmark | null) {
+    const previous = message.bookmark || null;
+
+    updateMessage({
+      id: message.id,
+      bookmark
+    });
+
+    // Chats stored in memory are not in the history
+    if (chatMetadata.value.storageType === StorageType.InMemory) {
+      return;
+    }
+
+    try {
+      const historyMessage = await historyMessageOf(message);
+
+      if (!historyMessage?.historyId) {
+        throw new Error(t('ai.bookmarks.errors.notStored'));
+      }
+
+      const labelsAndTags = bookmarkLabelsAndTags({
+        ...message,
+        tags:   historyMessage.tags,
+        labels: historyMessage.labels
+      }, bookmark);
+
+      await updateChatMessage(chatMetadata.value.chatId, historyMessage.historyId, labelsAndTags);
+
+      updateMessage({
+        id: message.id,
+        ...labelsAndTags
+      });
+    } catch (err) {
+      updateMessage({
+        id:       message.id,
+        bookmark: previous
+      });
+
+      throw err;
+    }
+  }
+
+  return {
+    bookmarks,
+    bookmarkMessage,
+  };
+}
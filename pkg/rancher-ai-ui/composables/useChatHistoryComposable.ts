@@ -0,0 +1,138 @@
+import { computed, ref } from 'vue';
+import { HistoryChat, HistoryChatDeleteResult } from '../types';
+import { useAIAgentApiComposable } from './useAIAgentApiComposable';
+
+// Chats fetched by each request
+export const HISTORY_PAGE_SIZE = 50;
+
+// Chats deleted at the same time by the bulk actions
+const DELETE_BATCH_SIZE = 5;
+
+/**
+ * Composable for loading the chat history page by page.
+ *
+ * @returns Composable for loading the chat history.
+ */
+export function useChatHistoryComposable() {
+  const { fetchChats, deleteChat } = useAIAgentApiComposable();
+
+  const chats = ref<HistoryChat[]>([]);
+  const total = ref<number | null>(null);
+  const nextCursor = ref<string | null>(null);
+  const loading = ref(false);
+
+  const hasMore = computed(() => !!nextCursor.value);
+  const count = computed(() => total.value ?? chats.value.length);
+
+  // Responses of the requests sent before the last reload are discarded
+  let generation = 0;
+
+  /**
+   * Loads the first page of the chats.
+   *
+   * @param args.reset If false, the chats loaded so far are reloaded, e.g. after an update
+   */
+  async function loadChats(args: { reset?: boolean } = {}) {
+    const current = ++generation;
+    const limit = args.reset ? HISTORY_PAGE_SIZE : Math.max(HISTORY_PAGE_SIZE, chats.value.length);
+
+    loading.value = true;
+
+    const page = await fetchChats({ limit });
+
+    if (current !== generation) {
+      return;
+    }
+
+    chats.value = page.chats;
+    total.value = page.total ?? null;
+    nextCursor.value = page.nextCursor;
+    loading.value = false;
+  }
+
+  /**
+   * Loads the next page of the chats, if any.
+   */
+  async function loadMoreChats() {
+    if (!nextCursor.value || loading.value) {
+      return;
+    }
+
+    const current = generation;
+
+    loading.value = true;
+
+    const page = await fetchChats({
+      cursor: nextCursor.value,
+      limit:  HISTORY_PAGE_SIZE
+    });
+
+    if (current !== generation) {
+      return;
+    }
+
+    const ids = new Set(chats.value.map((chat) => chat.id));
+
+    chats.value = [...chats.value, ...page.chats.filter((chat) => !ids.has(chat.id))];
+    total.value = page.total ?? total.value;
+    nextCursor.value = page.nextCursor;
+    loading.value = false;
+  }
+
+  /**
+   * Loads all the remaining pages, e.g. to apply an action to every chat.
+   */
+  async function loadAllChats() {
+    if (loading.value) {
+      await loadChats();
+    }
+
+    while (nextCursor.value) {
+      const cursor = nextCursor.value;
+
+      await loadMoreChats();
+
+      // The chats were reloaded or the request failed
+      if (nextCursor.value === cursor) {
+        break;
+      }
+    }
+
+    return chats.value;
+  }
+
+  /**
+   * Deletes the chats, a few at a time.
+   *
+   * @param toDelete Chats to delete
+   * @returns The result of each deletion, with the error if the chat was not deleted
+   */
+  async function deleteChats(toDelete: HistoryChat[]): Promise<HistoryChatDeleteResult[]> {
+    const results: HistoryChatDeleteResult[] = [];
+
+    for (let i = 0; i < toDelete.length; i += DELETE_BATCH_SIZE) {
+      const batch = toDelete.slice(i, i + DELETE_BATCH_SIZE);
+      const settled = await Promise.allSettled(batch.map((chat) => deleteChat(chat.id)));
+
+      settled.forEach((res, j) => {
+        results.push({
+          chat:  batch[j],
+          error: res.status === 'rejected' ? (res.reason?.message || `${ res.reason }`) : undefined
+        });
+      });
+    }
+
+    return results;
+  }
+
+  return {
+    chats,
+    count,
+    hasMore,
+    loading,
+    loadChats,
+    loadMoreChats,
+    loadAllChats,
+    deleteChats,
+  };
+}
@@ -1,5 +1,5 @@
 import {
-  ref, computed, onMounted, ComputedRef, onBeforeUnmount
+  ref, computed, onMounted, ComputedRef, onBeforeUnmount, watch
 } from 'vue';
 import { useStore } from 'vuex';
 import { useI18n } from '@shell/composables/useI18n';
@@ -9,28 +9,41 @@ import {
   ActionType,
   Agent,
   AgentSelectionMode,
+  AIAgentAPIEvent,
   ChatError,
+  ChatExport,
+  ChatExportFormat,
   ChatMetadata,
   ConfirmationResponse,
   ConfirmationStatus,
+  Frame,
+  FrameType,
   McpAuthenticationRequest,
   McpAuthenticationResponse,
   McpTokenRefreshResponse,
   Message,
   MessageAction,
+  MessageDeliveryStatus,
+  MessageFocus,
+  MessageHistoryIds,
   MessageInternalSource,
   MessageLabelKey,
   MessagePhase,
   MessageProcessingState,
   MessageTag,
   MessageTemplateComponent,
+  MessageVersions,
+  OutboundMessage,
+  OutboundMessageKind,
   Role,
-  Tag
+  StorageType,
+  Tag,
+  WSProtocol
 } from '../types';
 import { ToolName } from '../components/tools/types';
 import { warn } from '../utils/log';
 import {
-  formatWSInputMessage, formatMessageRelatedResourcesActions, formatConfirmationActions, formatFileMessages,
+  formatWSInputMessage, formatMessageRelatedResourcesActions, formatConfirmationActions,
   formatErrorMessage, formatSourceLinks,
   formatChatMetadata,
   formatChatErrorMessage,
@@ -39,9 +52,16 @@ import {
   formatAgentMetadata,
   formatMcpAuthenticationRequest,
   formatMcpRefreshTokenRequest,
+  formatMessageLabels,
+  formatMessageHistoryIds,
   formatAuthenticationErrorMessage
 } from '../utils/format';
 import { validateUrl } from '../utils/url';
+import { isManualDisconnect } from '../utils/ws';
+import { isFrameProtocol, parseWSData } from '../utils/frame-parser';
+import { TagTokenizer } from '../utils/tag-parser';
+import { ChatExportArgs, exportChat, exportChatToJson, isExportable } from '../utils/export';
+import { chatTitle, isDefaultChatName } from '../utils/history';
 import { downloadFile } from '@shell/utils/download';
 import { useContextComposable } from './useContextComposable';
 import { useAIAgentApiComposable } from './useAIAgentApiComposable';
@@ -50,6 +70,21 @@ import AuthenticationHandler from '../handlers/authentication';
 
 const EXPAND_THINKING = false;
 
+// Phases where no response is being generated
+const IDLE_PHASES = [
+  MessagePhase.Idle,
+  MessagePhase.Setup,
+  MessagePhase.Initializing,
+  MessagePhase.AwaitingConfirmation,
+];
+
+/**
+ * Returns true if a response is being generated in the given phase.
+ */
+export function isGeneratingPhase(phase?: MessagePhase): boolean {
+  return !!phase && !IDLE_PHASES.includes(phase);
+}
+
 const DISMISS_RECOMMENDED_AGENT_KEY = 'dismissed-agent-recommendation';
 const MAX_MESSAGES_BEFORE_RECOMMENDATION = 5;
 
@@ -75,20 +110,55 @@ export function useChatMessageComposable(
 
   const { selectContext, selectedContext } = useContextComposable();
   const { toolsSelector } = useToolsComposable();
-  const { refreshMcpAuthenticationToken, fetchUIToolsCalls } = useAIAgentApiComposable();
+  const {
+    refreshMcpAuthenticationToken, fetchUIToolsCalls, fetchChat, updateChat
+  } = useAIAgentApiComposable();
 
   const principal = store.getters['rancher/byId'](NORMAN.PRINCIPAL, store.getters['auth/principalId']) || {};
 
   const currentMsg = ref<Message>({} as Message);
 
-  const chatMetadata = computed<ChatMetadata>(() => store.getters['rancher-ai-ui/chat/metadata'] || {});
+  const chatMetadata = computed<ChatMetadata>(() => store.getters['rancher-ai-ui/chat/metadata']?.(chatId) || {});
   const isChatInitialized = computed(() => !!chatMetadata.value.chatId);
 
+  // Buffers tags split across WebSocket messages (Tag protocol)
+  const tagTokenizer = new TagTokenizer();
+
+  // Sequence number of the last frame received (JSON protocol)
+  let lastFrameSeq = -1;
+
   const messageBox = computed(() => store.getters['rancher-ai-ui/chat/messageBox'](chatId));
   const messages = computed(() => Object.values(store.getters['rancher-ai-ui/chat/messages'](chatId)) as Message[]);
+  const versions = computed<Record<string, MessageVersions>>(() => store.getters['rancher-ai-ui/chat/versions'](chatId));
 
   const error = computed(() => store.getters['rancher-ai-ui/chat/error'](chatId));
 
+  /**
+   * Local id of the message to scroll to, once the chat it belongs to is loaded.
+   */
+  const focusedMessageId = computed<number | null>(() => {
+    const focus = store.getters['rancher-ai-ui/chat/focus'](chatId) as MessageFocus | null;
+
+    if (!focus || focus.chatId !== chatMetadata.value?.chatId) {
+      return null;
+    }
+
+    const all = store.getters['rancher-ai-ui/chat/allMessages'](chatId) as Message[];
+    const message = focus.messageId ? all.find((m) => m.historyId === focus.messageId) : all[focus.messageIndex ?? -1];
+
+    return (message?.id as number) ?? null;
+  });
+
+  // The message may be an alternate version, not shown
+  watch(focusedMessageId, (messageId) => {
+    if (messageId) {
+      store.commit('rancher-ai-ui/chat/selectPath', {
+        chatId,
+        messageId
+      });
+    }
+  });
+
   const processingState = computed(() => store.getters['rancher-ai-ui/chat/processingState'](chatId));
 
   const setProcessingState = (processingState: MessageProcessingState) => {
@@ -98,12 +168,100 @@ export function useChatMessageComposable(
     });
   };
 
-  function wsSend(ws: WebSocket, value: string) {
+  function wsSend(ws: WebSocket, value: string): boolean {
     if (!ws || ws.readyState !== WebSocket.OPEN) {
-      return;
+      return false;
     }
 
     ws.send(value);
+
+    return true;
+  }
+
+  /**
+   * Buffers a prompt or a confirmation reply in the connection store's outbound queue,
+   * it will be sent as soon as the WebSocket connection is open.
+   */
+  function enqueue(messageId: number | string, kind: OutboundMessageKind, payload: string) {
+    const message = kind === OutboundMessageKind.Prompt ? getMessage(`${ messageId }`) : null;
+
+    store.commit('rancher-ai-ui/connection/enqueue', {
+      chatId,
+      historyChatId: chatMetadata.value.chatId,
+      messageId,
+      kind,
+      payload,
+      message:       message ? {
+        role:           message.role,
+        summaryContent: message.summaryContent,
+        messageContent: message.messageContent,
+        contextContent: message.contextContent
+      } : undefined
+    });
+
+    updateMessage({
+      id:             messageId,
+      deliveryStatus: MessageDeliveryStatus.Pending
+    });
+  }
+
+  /**
+   * Sends the queued messages in order, once the WebSocket connection is open.
+   *
+   * The messages restored after a page reload are no longer in the chat: prompts are shown again and reply to
+   * the last message of the chat, confirmations are dropped as the agent is not waiting for them anymore.
+   */
+  function flushQueue(ws: WebSocket) {
+    const queue: OutboundMessage[] = store.getters['rancher-ai-ui/connection/queue']?.(chatId) || [];
+
+    for (const {
+      messageId, kind, payload, message, restored
+    } of queue) {
+      const dropped = restored && kind !== OutboundMessageKind.Prompt;
+
+      if (!dropped && !wsSend(ws, restored ? replyToLastMessage(payload) : payload)) {
+        return;
+      }
+
+      store.commit('rancher-ai-ui/connection/dequeue', {
+        chatId,
+        messageId
+      });
+
+      if (dropped) {
+        continue;
+      }
+
+      if (restored) {
+        addMessage({
+          role: Role.User,
+          ...message
+        });
+      } else {
+        updateMessage({
+          id:             messageId,
+          deliveryStatus: undefined
+        });
+      }
+
+      if (kind === OutboundMessageKind.Prompt) {
+        setProcessingState({ phase: MessagePhase.Processing });
+      }
+    }
+  }
+
+  function buildInputMessage(message: Message, tags?: MessageTag[]): string {
+    const summaryContent = message.summaryContent || '';
+
+    return formatWSInputMessage({
+      prompt:   message.messageContent || '',
+      context:  message.contextContent || [],
+      agent:    message.agentMetadata?.agent?.name || agentName.value,
+      tools:    toolsSelector.value,
+      labels:   summaryContent ? { [MessageLabelKey.Summary]: summaryContent } : undefined,
+      tags,
+      parentId: message.parentId ? getMessage(`${ message.parentId }`)?.historyId : undefined
+    });
   }
 
   function sendMessage(msg: string | Message, ws: WebSocket) {
@@ -129,13 +287,16 @@ export function useChatMessageComposable(
       source = msg.source;
     } else { /* msg is type of string */ }
 
-    wsSend(ws, formatWSInputMessage({
-      prompt:  messageContent,
-      context: selectedContext.value,
-      agent:   agentName.value,
-      tools:   toolsSelector.value,
-      labels
-    }));
+    const payload = formatWSInputMessage({
+      prompt:   messageContent,
+      context:  contextContent,
+      agent:    agentName.value,
+      tools:    toolsSelector.value,
+      labels,
+      parentId: messages.value[messages.value.length - 1]?.historyId
+    });
+
+    const sent = wsSend(ws, payload);
 
     const agentMetadata = { agent: agents.value.find((a) => a.name === agentName.value) || {} as Agent };
 
@@ -146,13 +307,126 @@ export function useChatMessageComposable(
       messageContent,
       contextContent,
       source
+    }).then((messageId) => {
+      if (!sent && messageId) {
+        enqueue(messageId, OutboundMessageKind.Prompt, payload);
+      }
     });
 
     if (source === MessageInternalSource.MessageBox) {
       clearMessageBox();
     }
 
-    setProcessingState({ phase: MessagePhase.Processing });
+    if (sent) {
+      setProcessingState({ phase: MessagePhase.Processing });
+    }
+  }
+
+  /**
+   * Retries a message that could not be delivered.
+   *
+   * Prompts are sent again, confirmations are restored to pending so that the user can answer again.
+   */
+  function retryMessage(message: Message, ws: WebSocket) {
+    if (!message.id || message.deliveryStatus !== MessageDeliveryStatus.Failed) {
+      return;
+    }
+
+    if (message.confirmation) {
+      updateMessage({
+        id:             message.id,
+        deliveryStatus: undefined,
+        confirmation:   {
+          actions: message.confirmation.actions || null,
+          status:  ConfirmationStatus.Pending
+        }
+      });
+
+      return;
+    }
+
+    const payload = buildInputMessage(message);
+
+    if (wsSend(ws, payload)) {
+      updateMessage({
+        id:             message.id,
+        deliveryStatus: undefined
+      });
+
+      setProcessingState({ phase: MessagePhase.Processing });
+    } else {
+      enqueue(message.id, OutboundMessageKind.Prompt, payload);
+    }
+  }
+
+  /**
+   * Regenerates an assistant reply, the original reply is kept as an alternate version.
+   * The user prompt that originated the reply is sent again.
+   */
+  function regenerateMessage(message: Message, ws: WebSocket) {
+    const index = messages.value.findIndex((m) => m.id === message.id);
+    const prompt = messages.value.slice(0, index).reverse().find((m) => m.role === Role.User);
+
+    if (message.role !== Role.Assistant || !prompt?.id) {
+      return;
+    }
+
+    fork(message.id as number);
+
+    const payload = buildInputMessage(prompt, [MessageTag.Regenerate]);
+
+    if (wsSend(ws, payload)) {
+      setProcessingState({ phase: MessagePhase.Processing });
+    } else {
+      enqueue(prompt.id, OutboundMessageKind.Prompt, payload);
+    }
+  }
+
+  /**
+   * Sends an edited user prompt, the original prompt and its replies are kept as an alternate version.
+   */
+  function editMessage({ message, content }: { message: Message; content: string }, ws: WebSocket) {
+    if (message.role !== Role.User || !content?.trim()) {
+      return;
+    }
+
+    fork(message.id as number);
+
+    sendMessage({
+      ...message,
+      summaryContent: '',
+      messageContent: content.trim(),
+      source:         undefined
+    }, ws);
+  }
+
+  /**
+   * Scrolls to a message of the chat, see `focusedMessageId`.
+   *
+   * @param focus Message to scroll to, null once done
+   */
+  function focusMessage(focus: MessageFocus | null) {
+    store.commit('rancher-ai-ui/chat/setFocus', {
+      chatId,
+      focus
+    });
+  }
+
+  function fork(messageId: number) {
+    store.commit('rancher-ai-ui/chat/fork', {
+      chatId,
+      messageId
+    });
+  }
+
+  /**
+   * Shows another version of a message, and the conversation following it.
+   */
+  function selectVersion(messageId: number) {
+    store.commit('rancher-ai-ui/chat/selectVersion', {
+      chatId,
+      messageId
+    });
   }
 
   async function addMessage(message: Message) {
@@ -170,11 +444,15 @@ export function useChatMessageComposable(
   }
 
   function confirmMessage({ message, result }: { message: Message; result: boolean }, ws: WebSocket) {
-    wsSend(ws, formatWSInputMessage({
+    const payload = formatWSInputMessage({
       prompt: result ? ConfirmationResponse.Yes : ConfirmationResponse.No,
       agent:  message.agentMetadata?.agent?.name || undefined, // This is required when Agent selection is manual
       tags:   [MessageTag.Confirmation]
-    }));
+    });
+
+    if (!wsSend(ws, payload) && message.id) {
+      enqueue(message.id, OutboundMessageKind.Confirmation, payload);
+    }
 
     updateMessage({
       id:           message.id,
@@ -189,6 +467,59 @@ export function useChatMessageComposable(
     }
   }
 
+  /**
+   * Stores the history ids of the reply being streamed and of its prompt,
+   * so that the prompts sent later reply to the right branch (see `parentId` in `buildInputMessage`).
+   */
+  function setHistoryIds(ids: MessageHistoryIds | null) {
+    if (!ids || !currentMsg.value) {
+      return;
+    }
+
+    currentMsg.value.historyId = ids.messageId;
+
+    const prompt = currentMsg.value.parentId ? getMessage(`${ currentMsg.value.parentId }`) : null;
+
+    if (ids.parentId && prompt?.role === Role.User && !prompt.historyId) {
+      updateMessage({
+        id:        prompt.id,
+        historyId: ids.parentId
+      });
+    }
+  }
+
+  /**
+   * Sends the messages restored after a page reload, once the tab is connected to their chat.
+   */
+  function flushRestoredQueue(ws: WebSocket) {
+    const historyChatId = chatMetadata.value.chatId;
+
+    if (!historyChatId) {
+      return;
+    }
+
+    store.commit('rancher-ai-ui/connection/adoptQueue', {
+      chatId,
+      historyChatId
+    });
+
+    flushQueue(ws);
+  }
+
+  /**
+   * Replaces the parent of a prompt payload by the last message of the chat.
+   */
+  function replyToLastMessage(payload: string): string {
+    try {
+      return JSON.stringify({
+        ...JSON.parse(payload),
+        parentId: messages.value[messages.value.length - 1]?.historyId
+      });
+    } catch {
+      return payload;
+    }
+  }
+
   function getMessage(messageId: string) {
     return store.getters['rancher-ai-ui/chat/message']({
       chatId,
@@ -309,6 +640,42 @@ export function useChatMessageComposable(
     }
   }
 
+  /**
+   * Names the chat after its first exchange. The user can still rename it from the history:
+   * chats are renamed only while they have the name given by the agent, e.g. when the first reply is regenerated.
+   */
+  async function ensureChatTitle(agentSummary?: string) {
+    const { chatId: historyChatId, storageType } = chatMetadata.value;
+    const conversation = messages.value.filter(isExportable);
+
+    if (
+      !historyChatId ||
+      storageType === StorageType.InMemory ||
+      conversation.filter((m) => m.role === Role.User).length !== 1 ||
+      conversation.filter((m) => m.role === Role.Assistant).length !== 1
+    ) {
+      return;
+    }
+
+    const name = chatTitle(conversation, agentSummary);
+
+    if (!name) {
+      return;
+    }
+
+    const chat = await fetchChat(historyChatId);
+
+    if (!chat || chat.name === name || !isDefaultChatName(chat.name, conversation)) {
+      return;
+    }
+
+    try {
+      await updateChat(historyChatId, { name });
+    } catch {
+      // The chat keeps the name given by the agent
+    }
+  }
+
   async function ensureAgentMcpAuthenticationRequest(ws: WebSocket, agents: Agent[], metadata: McpAuthenticationRequest) {
     const agent = agents.find((a) => a.name === metadata?.agent);
 
@@ -373,22 +740,58 @@ export function useChatMessageComposable(
       return;
     }
 
+    // Partial tags of a previous connection are discarded
+    tagTokenizer.reset();
+
+    // Messages sent while the connection was not open are delivered first
+    flushQueue(ws);
+
     // A message is in the message box, send it immediately when WS connection is established
     if (messageBox.value) {
       sendMessage(messageBox.value, ws);
     }
   }
 
+  /**
+   * Frames already received are dropped (JSON protocol only).
+   * The chat metadata restarts the sequence, it is never dropped.
+   */
+  function isDuplicateFrame(frame: Frame) {
+    if (frame.seq === undefined || frame.type === FrameType.ChatMetadata) {
+      return false;
+    }
+
+    if (frame.seq <= lastFrameSeq) {
+      warn('Dropping duplicate frame', frame.seq);
+
+      return true;
+    }
+
+    lastFrameSeq = frame.seq;
+
+    return false;
+  }
+
   async function onmessage(event: MessageEvent) {
     const ws = event.target as WebSocket;
-    const data = event.data;
+    const frames = parseWSData(event.data, chatMetadata.value.protocol, tagTokenizer);
 
+    for (const frame of frames) {
+      if (!isDuplicateFrame(frame)) {
+        await processFrame(ws, frame);
+      }
+    }
+  }
+
+  async function processFrame(ws: WebSocket, frame: Frame) {
     if (!isChatInitialized.value) {
       try {
-        processChatErrors(data);
-        processChatMetadata(data);
+        processChatErrors(frame);
+        processChatMetadata(frame);
 
         await ensureWelcomeMessage();
+
+        flushRestoredQueue(ws);
       } catch (err) {
         setErrors({
           message: (err as Error)?.message || t('ai.error.chat.generic'),
@@ -406,15 +809,45 @@ export function useChatMessageComposable(
       }
     } else {
       try {
-        await processMessageData(ws, data);
+        await processMessageData(ws, frame);
       } catch (err) {
         processMessageErrorData(err as ChatError);
       }
     }
   }
 
-  function onclose() {
+  /**
+   * Stops the generation of the response being streamed.
+   * The agent is asked to abort, the connection remains open.
+   */
+  function stopGeneration(ws: WebSocket) {
+    wsSend(ws, AIAgentAPIEvent.Abort);
+
+    if (currentMsg.value?.completed === false) {
+      currentMsg.value.stopped = true;
+      currentMsg.value.thinking = false;
+      currentMsg.value.completed = true;
+      currentMsg.value.messageContent = currentMsg.value.messageContent?.replace(/[\r\n]+$/, '');
+    }
+
+    setProcessingState({ phase: MessagePhase.Idle });
+  }
+
+  function onclose(event?: CloseEvent) {
+    // Data of a tag partially received, shown as text
+    const pending = tagTokenizer.flush().map(({ payload }) => payload).join('');
+
     if (currentMsg.value) {
+      if (pending && currentMsg.value.completed === false && !currentMsg.value.stopped) {
+        currentMsg.value.messageContent = `${ currentMsg.value.messageContent || '' }${ pending }`;
+      }
+
+      // The response was still streaming when the connection dropped
+      if (currentMsg.value.completed === false && event && !isManualDisconnect(event)) {
+        currentMsg.value.interrupted = true;
+        currentMsg.value.thinking = false;
+      }
+
       currentMsg.value.completed = true;
     }
 
@@ -425,19 +858,37 @@ export function useChatMessageComposable(
     setProcessingState({ phase: MessagePhase.Idle });
   }
 
-  function processChatErrors(data: string) {
-    if (data.startsWith(Tag.ChatErrorStart) && data.endsWith(Tag.ChatErrorEnd)) {
-      const errorMessage = formatChatErrorMessage(data);
+  function processChatErrors(frame: Frame) {
+    if (frame.type === FrameType.ChatError) {
+      const errorMessage = formatChatErrorMessage(frame.payload);
 
       throw errorMessage;
     }
   }
 
-  function processChatMetadata(data: string) {
-    const metadata = formatChatMetadata(data);
+  function processChatMetadata(frame: Frame) {
+    if (frame.type !== FrameType.ChatMetadata) {
+      return;
+    }
+
+    const metadata = formatChatMetadata(frame.payload);
 
     if (metadata) {
-      store.commit('rancher-ai-ui/chat/setMetadata', metadata);
+      if (metadata.protocol && metadata.protocol.name !== WSProtocol.Tag && !isFrameProtocol(metadata.protocol)) {
+        warn('Unsupported message protocol, falling back to Tag protocol', metadata.protocol);
+      }
+
+      // Frames sequence restarts on every negotiation
+      lastFrameSeq = -1;
+
+      store.commit('rancher-ai-ui/chat/setMetadata', {
+        chatId,
+        metadata
+      });
+
+      if (metadata.heartbeat) {
+        store.dispatch('rancher-ai-ui/connection/startHeartbeat', chatId);
+      }
     }
   }
 
@@ -492,38 +943,53 @@ export function useChatMessageComposable(
     }
   }
 
-  async function processMessageData(ws: WebSocket, data: string) {
-    switch (data) {
-    case Tag.MessageStart:
+  async function processMessageData(ws: WebSocket, frame: Frame) {
+    const data = frame.payload;
+
+    // The agent may still be streaming the response that was stopped, until the next message
+    if (currentMsg.value?.stopped && ![FrameType.MessageStart, FrameType.ChatMetadata].includes(frame.type)) {
+      return;
+    }
+
+    switch (frame.type) {
+    case FrameType.MessageStart:
       setProcessingState({ phase: MessagePhase.Working });
 
       const msgId = await addMessage(buildMessage(agentName.value));
 
       currentMsg.value = getMessage(msgId);
       break;
-    case Tag.ThinkingStart: {
+    case FrameType.ThinkingStart: {
       setProcessingState({ phase: MessagePhase.Thinking });
       currentMsg.value.thinking = true;
       break;
     }
-    case Tag.ThinkingEnd: {
+    case FrameType.ThinkingEnd: {
       setProcessingState({ phase: MessagePhase.GeneratingResponse });
       currentMsg.value.thinking = false;
       break;
     }
-    case Tag.MessageEnd:
+    case FrameType.MessageEnd:
       setProcessingState({ phase: MessagePhase.Idle });
       currentMsg.value.messageContent = currentMsg.value.messageContent?.replace(/[\r\n]+$/, '');
       currentMsg.value.thinking = false;
       currentMsg.value.completed = true;
 
+      setHistoryIds(formatMessageHistoryIds(data));
+
       await ensureSwitchAgentSuggestion(currentMsg.value.agentMetadata?.recommended);
+      await ensureChatTitle(formatMessageLabels(data)?.[MessageLabelKey.Summary]);
 
+      break;
+    case FrameType.ChatMetadata:
+      // Sent again by the agent when the connection is re-established
+      processChatMetadata(frame);
+      flushRestoredQueue(ws);
       break;
     default:
       setProcessingState({ phase: MessagePhase.GeneratingResponse });
 
-      if (data.startsWith(Tag.ProcessingSubagentInitStart) && data.endsWith(Tag.ProcessingSubagentInitEnd)) {
+      if (frame.type === FrameType.ProcessingSubagentStart) {
         const metadata = formatSubAgentProcessingMetadata(data);
 
         const agent = agents.value.find((a) => a.name === metadata?.name);
@@ -539,20 +1005,22 @@ export function useChatMessageComposable(
         break;
       }
 
-      if (data.startsWith(Tag.ProcessingSubagentCompleteStart) && data.endsWith(Tag.ProcessingSubagentCompleteEnd)) {
+      if (frame.type === FrameType.ProcessingSubagentEnd) {
         break;
       }
 
-      if (data.startsWith(Tag.AgentMetadataStart) && data.endsWith(Tag.AgentMetadataEnd)) {
+      if (frame.type === FrameType.AgentMetadata) {
         const metadata = formatAgentMetadata(data);
 
         if (metadata && currentMsg.value.agentMetadata) {
           currentMsg.value.agentMetadata.recommended = metadata.recommended;
         }
+
+        setHistoryIds(formatMessageHistoryIds(data));
         break;
       }
 
-      if (data.startsWith(Tag.AuthenticationRequestStart) && data.endsWith(Tag.AuthenticationRequestEnd)) {
+      if (frame.type === FrameType.AuthenticationRequest) {
         const metadata = formatMcpAuthenticationRequest(data);
 
         if (!metadata || !validateUrl(metadata.url)) {
@@ -572,7 +1040,7 @@ export function useChatMessageComposable(
         break;
       }
 
-      if (data.startsWith(Tag.TokenRefreshRequestStart) && data.endsWith(Tag.TokenRefreshRequestEnd)) {
+      if (frame.type === FrameType.TokenRefreshRequest) {
         const agentName = formatMcpRefreshTokenRequest(data);
 
         if (agentName) {
@@ -599,7 +1067,7 @@ export function useChatMessageComposable(
           break;
         }
 
-        if (data.startsWith(Tag.McpResultStart) && data.endsWith(Tag.McpResultEnd)) {
+        if (frame.type === FrameType.McpResult) {
           setProcessingState({ phase: MessagePhase.Finalizing });
 
           const relatedResourcesActions = formatMessageRelatedResourcesActions(data);
@@ -611,7 +1079,7 @@ export function useChatMessageComposable(
           break;
         }
 
-        if (data.startsWith(Tag.ConfirmationStart) && data.endsWith(Tag.ConfirmationEnd)) {
+        if (frame.type === FrameType.Confirmation) {
           const confirmationActions = formatConfirmationActions(data);
 
           if (confirmationActions) {
@@ -626,13 +1094,13 @@ export function useChatMessageComposable(
           }
         }
 
-        if (data.startsWith(Tag.DocLinkStart) && data.endsWith(Tag.DocLinkEnd)) {
+        if (frame.type === FrameType.DocLink) {
           currentMsg.value.sourceLinks = formatSourceLinks(currentMsg.value.sourceLinks || [], data);
 
           break;
         }
 
-        if (data.startsWith(Tag.ErrorStart) && data.endsWith(Tag.ErrorEnd)) {
+        if (frame.type === FrameType.Error) {
           const err = formatErrorMessage(data);
 
           throw {
@@ -641,7 +1109,7 @@ export function useChatMessageComposable(
           };
         }
 
-        if (data.startsWith(Tag.AuthenticationErrorStart) && data.endsWith(Tag.AuthenticationErrorEnd)) {
+        if (frame.type === FrameType.AuthenticationError) {
           const err = formatAuthenticationErrorMessage(data);
 
           throw {
@@ -650,15 +1118,24 @@ export function useChatMessageComposable(
           };
         }
 
-        if (data === Tag.ProcessingTools) {
+        if (frame.type === FrameType.ProcessingTools) {
           setProcessingState({ phase: MessagePhase.ProcessingTools });
 
           break;
         }
 
+        if (frame.type === FrameType.Tools) {
+          const { tools } = formatTools(currentMsg.value.tools || [], data);
+
+          currentMsg.value.tools = tools;
+
+          break;
+        }
+
         currentMsg.value.messageContent += data;
 
-        if (currentMsg.value.messageContent?.includes(Tag.ToolsStart) && currentMsg.value.messageContent?.includes(Tag.ToolsEnd)) {
+        // With the Tag protocol, tools with attributes are not tokenized and remain embedded in the message content
+        if (frame.protocol === WSProtocol.Tag && currentMsg.value.messageContent?.includes(Tag.ToolsStart) && currentMsg.value.messageContent?.includes(Tag.ToolsEnd)) {
           const { tools, remaining } = formatTools(currentMsg.value.tools || [], currentMsg.value.messageContent);
 
           currentMsg.value.tools = tools;
@@ -687,11 +1164,33 @@ export function useChatMessageComposable(
     });
   }
 
-  function downloadMessages() {
-    downloadFile(
-      `Rancher-liz-chat-${ chatId }_${ new Date().toISOString().slice(0, 10) }.txt`,
-      formatFileMessages(principal, messages.value)
-    );
+  /**
+   * Downloads the chat in the given format.
+   *
+   * @param format Export format
+   * @param chat Chat to export, defaults to the current chat. The JSON export of the current chat includes every version of the messages.
+   */
+  function downloadMessages(format = ChatExportFormat.Markdown, chat?: Partial<ChatExportArgs>) {
+    const file = exportChat(format, {
+      chatId:   chatMetadata.value?.chatId || chatId,
+      userName: principal?.name,
+      messages: format === ChatExportFormat.Json ? store.getters['rancher-ai-ui/chat/allMessages'](chatId) : messages.value,
+      ...chat,
+    });
+
+    downloadFile(file.fileName, file.content, file.mimeType);
+  }
+
+  /**
+   * Takes a snapshot of the chat, with all the messages (every version), to be shared read-only.
+   */
+  function snapshotMessages(chat?: Partial<ChatExportArgs>): ChatExport {
+    return exportChatToJson({
+      chatId:   chatMetadata.value?.chatId || chatId,
+      userName: principal?.name,
+      messages: store.getters['rancher-ai-ui/chat/allMessages'](chatId),
+      ...chat,
+    });
   }
 
   function loadMessages(messages: Message[]) {
@@ -707,9 +1206,12 @@ export function useChatMessageComposable(
 
   function resetChatMetadata(args: { chatId: string | null } = { chatId: null }) {
     store.commit('rancher-ai-ui/chat/setMetadata', {
-      chatId:      args.chatId,
-      agents:      null,
-      storageType: null
+      chatId,
+      metadata: {
+        chatId:      args.chatId,
+        agents:      null,
+        storageType: null
+      }
     });
   }
 
@@ -742,11 +1244,20 @@ export function useChatMessageComposable(
     messages,
     messageBox,
     sendMessage,
+    retryMessage,
+    stopGeneration,
+    regenerateMessage,
+    editMessage,
+    selectVersion,
+    versions,
+    focusMessage,
+    focusedMessageId,
     addMessage,
     updateMessage,
     confirmMessage,
     selectContext,
     downloadMessages,
+    snapshotMessages,
     loadMessages,
     resetMessages,
     clearMessageBox,
@@ -0,0 +1,133 @@
+import { computed } from 'vue';
+import { useStore } from 'vuex';
+import { useI18n } from '@shell/composables/useI18n';
+import {
+  Agent, ChatExport, ChatImportMode, ChatTab, ContextTag, Message, Role
+} from '../types';
+import { MAX_CHAT_TABS } from '../store/chat';
+import { exportChatToMarkdown, messagesFromChatExport } from '../utils/export';
+import { isGeneratingPhase } from './useChatMessageComposable';
+
+const TAB_LABEL_MAX_LENGTH = 24;
+
+/**
+ * Composable for managing the chat tabs.
+ *
+ * Each tab is a chat with its own connection: chats keep streaming while their tab is not active.
+ *
+ * @returns Composable for managing the chat tabs.
+ */
+export function useChatTabsComposable() {
+  const store = useStore();
+  const { t } = useI18n(store);
+
+  const activeTab = computed<string>(() => store.getters['rancher-ai-ui/chat/activeTab']);
+
+  const tabs = computed<ChatTab[]>(() => {
+    return (store.getters['rancher-ai-ui/chat/tabs'] as string[]).map((id) => {
+      const messages = Object.values(store.getters['rancher-ai-ui/chat/messages'](id) || {}) as Message[];
+      const firstUserMessage = messages.find((m) => m.role === Role.User);
+      const text = (store.getters['rancher-ai-ui/chat/imported'](id)?.name || firstUserMessage?.summaryContent || firstUserMessage?.messageContent || '').trim();
+
+      const phase = store.getters['rancher-ai-ui/chat/processingState'](id)?.phase;
+
+      return {
+        id,
+        label:     text ? (text.length > TAB_LABEL_MAX_LENGTH ? `${ text.slice(0, TAB_LABEL_MAX_LENGTH) }…` : text) : t('ai.header.tabs.newChat'),
+        active:    id === activeTab.value,
+        streaming: isGeneratingPhase(phase),
+      };
+    });
+  });
+
+  const canCreateTab = computed(() => tabs.value.length < MAX_CHAT_TABS);
+
+  async function createTab() {
+    return await store.dispatch('rancher-ai-ui/chat/createTab');
+  }
+
+  /**
+   * Returns the tab where the chat is open, if any.
+   *
+   * @param agentChatId The chat id returned by the agent (chat metadata)
+   */
+  function tabOf(agentChatId: string): string | null {
+    return store.getters['rancher-ai-ui/chat/tabOf'](agentChatId);
+  }
+
+  /**
+   * Imports a chat exported to JSON in a new tab.
+   *
+   * The chat is either open read-only, or a new chat is started with its transcript as context.
+   *
+   * @param data The chat export
+   * @param mode Import mode
+   * @param agents Agents, to restore the agent of each message
+   * @returns The id of the tab, null if no more tabs can be open
+   */
+  async function importChat(data: ChatExport, mode: ChatImportMode, agents: Agent[] = []): Promise<string | null> {
+    if (!canCreateTab.value) {
+      return null;
+    }
+
+    const messages = messagesFromChatExport(data, agents);
+
+    if (mode === ChatImportMode.ReadOnly) {
+      return await store.dispatch('rancher-ai-ui/chat/importChat', {
+        name: data.chat.name,
+        messages
+      });
+    }
+
+    const chatId = await createTab();
+    const name = data.chat.name || data.chat.id;
+
+    store.commit('rancher-ai-ui/chat/addToMessageBox', {
+      chatId,
+      message: {
+        role:           Role.User,
+        messageContent: t('ai.import.prompt', { name }, true),
+        contextContent: [{
+          tag:         ContextTag.IMPORTED_CHAT,
+          value:       exportChatToMarkdown({
+            chatId: data.chat.id,
+            name:   data.chat.name,
+            messages
+          }),
+          valueLabel:  name,
+          description: t('ai.import.context'),
+          icon:        'icon-history'
+        }],
+        completed: true
+      }
+    });
+
+    return chatId;
+  }
+
+  function selectTab(chatId: string) {
+    store.commit('rancher-ai-ui/chat/setActiveTab', chatId);
+  }
+
+  function closeTab(chatId: string) {
+    if (tabs.value.length <= 1) {
+      return;
+    }
+
+    store.commit('rancher-ai-ui/connection/close', { chatId });
+    store.commit('rancher-ai-ui/connection/clearQueue', chatId);
+    store.commit('rancher-ai-ui/connection/remove', chatId);
+    store.commit('rancher-ai-ui/chat/closeTab', chatId);
+  }
+
+  return {
+    tabs,
+    activeTab,
+    canCreateTab,
+    tabOf,
+    createTab,
+    importChat,
+    selectTab,
+    closeTab,
+  };
+}
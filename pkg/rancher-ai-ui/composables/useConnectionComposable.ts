@@ -1,58 +1,87 @@
 import { computed } from 'vue';
 import { useStore } from 'vuex';
 import { AGENT_NAME, AGENT_NAMESPACE, AGENT_WS_API_PATH } from '../product';
-import { ConnectionPhase } from '../types';
+import { ConnectionPhase, HeartbeatConfig } from '../types';
 
 /**
  * Composable for managing the AI connection state.
  *
  * The connection remains persistent across different chat sessions (closing and reopening the chat).
+ * Each chat has its own connection, streaming continues while the chat is not visible.
  *
- * Note: The connection phase is not currently handled.
+ * Unexpected disconnections are retried by the connection store, always reconnecting to the active chat.
+ * The heartbeat can be tuned with the `heartbeat` option, it is used only when the agent supports it (chat metadata).
  *
+ * @param chatId The chat id (store key) the connection belongs to.
  * @param options Options for the connection composable.
  * @returns Composable for managing the AI connection state.
  */
-export function useConnectionComposable(options: {
+export function useConnectionComposable(chatId: string, options: {
   onopen: (event: { target: WebSocket }) => void // eslint-disable-line no-unused-vars
   onmessage: (event: MessageEvent) => Promise<void>, // eslint-disable-line no-unused-vars
   onclose?: (event: CloseEvent) => void, // eslint-disable-line no-unused-vars
+  heartbeat?: Partial<HeartbeatConfig>,
 }) {
   const store = useStore();
 
-  const ws = computed(() => store.getters['rancher-ai-ui/connection/ws']);
-  const phase = computed(() => store.getters['rancher-ai-ui/connection/phase']);
-  const error = computed(() => store.getters['rancher-ai-ui/connection/error']);
+  const ws = computed(() => store.getters['rancher-ai-ui/connection/ws'](chatId));
+  const phase = computed(() => store.getters['rancher-ai-ui/connection/phase'](chatId));
+  const error = computed(() => store.getters['rancher-ai-ui/connection/error'](chatId));
+  const reconnectAttempts = computed(() => store.getters['rancher-ai-ui/connection/reconnectAttempts'](chatId));
 
   const baseUrl = `wss://${ window.location.host }/api/v1/namespaces/${ AGENT_NAMESPACE }/services/http:${ AGENT_NAME }:80/proxy/${ AGENT_WS_API_PATH }`;
 
-  async function connect(chatId?: string | null) {
-    const url = chatId ? `${ baseUrl }/${ chatId }` : baseUrl;
+  async function connect(agentChatId?: string | null) {
+    const url = agentChatId ? `${ baseUrl }/${ agentChatId }` : baseUrl;
 
-    const { onopen, onmessage, onclose } = options;
+    const {
+      onopen, onmessage, onclose, heartbeat
+    } = options;
+
+    // A new chat gets its id from the chat metadata, reconnect to it instead of starting another chat
+    const reconnectUrl = () => {
+      const activeChatId = store.getters['rancher-ai-ui/chat/metadata'](chatId)?.chatId;
+
+      return activeChatId ? `${ baseUrl }/${ activeChatId }` : url;
+    };
 
     await store.dispatch('rancher-ai-ui/connection/open', {
+      chatId,
       url,
+      reconnectUrl,
       onopen,
       onmessage,
       onclose,
+      heartbeat,
     });
   }
 
   function disconnect(phase?: ConnectionPhase) {
-    store.commit('rancher-ai-ui/connection/close', { phase });
+    store.commit('rancher-ai-ui/connection/close', {
+      chatId,
+      phase
+    });
   }
 
   function setPhase(phase: ConnectionPhase) {
-    store.commit('rancher-ai-ui/connection/setPhase', phase);
+    store.commit('rancher-ai-ui/connection/setPhase', {
+      chatId,
+      phase
+    });
+  }
+
+  function clearQueue() {
+    store.commit('rancher-ai-ui/connection/clearQueue', chatId);
   }
 
   return {
     ws,
     phase,
     error,
+    reconnectAttempts,
     connect,
     disconnect,
-    setPhase
+    setPhase,
+    clearQueue
   };
 }
@@ -0,0 +1,99 @@
+import { ComputedRef, ref } from 'vue';
+import { Agent, HistoryChat, HistorySearchResult, Message } from '../types';
+import { searchChats as searchChatsIndex } from '../utils/search';
+import { useAIAgentApiComposable } from './useAIAgentApiComposable';
+
+// Chats whose messages are fetched at the same time to build the client-side index
+const INDEX_BATCH_SIZE = 5;
+
+/**
+ * Composable for searching the chat history.
+ *
+ * The search endpoint of the agent is used when available, otherwise the chats are searched
+ * client side, over an index of the messages fetched for each chat.
+ *
+ * @param agents Reactive reference to the list of agents, used to format the fetched messages.
+ * @returns Composable for searching the chat history.
+ */
+export function useHistorySearchComposable(agents?: ComputedRef<Agent[]>) {
+  const { searchChats, fetchMessages } = useAIAgentApiComposable(agents);
+
+  const results = ref<HistorySearchResult[]>([]);
+  const searching = ref(false);
+
+  // Messages by chat id
+  const index: Record<string, Message[]> = {};
+
+  let serverSearch = true;
+  let lastQuery = '';
+
+  async function indexChats(chats: HistoryChat[]) {
+    const missing = chats.filter((chat) => !index[chat.id]);
+
+    for (let i = 0; i < missing.length; i += INDEX_BATCH_SIZE) {
+      await Promise.all(missing.slice(i, i + INDEX_BATCH_SIZE).map(async(chat) => {
+        index[chat.id] = await fetchMessages(chat.id);
+      }));
+    }
+  }
+
+  /**
+   * Searches the chat names and the message bodies.
+   *
+   * @param query Search query
+   * @param chats Chats of the history, searched client side if the agent does not support search
+   */
+  async function search(query: string, chats: HistoryChat[]) {
+    lastQuery = query.trim();
+
+    if (!lastQuery) {
+      results.value = [];
+      searching.value = false;
+
+      return;
+    }
+
+    const current = lastQuery;
+
+    searching.value = true;
+
+    let out: HistorySearchResult[] | null = null;
+
+    if (serverSearch) {
+      out = await searchChats(current);
+
+      // Don't try again until the index is reset
+      serverSearch = out !== null;
+    }
+
+    if (out === null) {
+      await indexChats(chats);
+
+      out = searchChatsIndex(current, chats, index);
+    }
+
+    // A newer search is running
+    if (current !== lastQuery) {
+      return;
+    }
+
+    results.value = out;
+    searching.value = false;
+  }
+
+  /**
+   * Clears the client-side index, e.g. when the history is fetched again.
+   */
+  function resetIndex() {
+    Object.keys(index).forEach((chatId) => delete index[chatId]);
+
+    serverSearch = true;
+  }
+
+  return {
+    results,
+    searching,
+    search,
+    resetIndex,
+  };
+}
@@ -7,6 +7,7 @@ interface KeyboardShortcutsOptions {
   onCopyLastMessage: () => void;
   onToggleHistory: () => void;
   onDeleteChat: () => void;
+  onFind: () => void;
 }
 
 interface ShortcutsComponent {
@@ -20,6 +21,7 @@ export function useKeyboardShortcutsComposable(options: KeyboardShortcutsOptions
     onCopyLastMessage,
     onToggleHistory,
     onDeleteChat,
+    onFind,
   } = options;
 
   const keyboardShortcutsRef = ref<ShortcutsComponent | null>(null);
@@ -54,6 +56,14 @@ export function useKeyboardShortcutsComposable(options: KeyboardShortcutsOptions
       return;
     }
 
+    // Replaces the browser find, which can't find the messages outside the rendered window
+    if (e[alternateKey] && !e.shiftKey && e.key?.toLowerCase() === 'f') {
+      e.preventDefault();
+      onFind();
+
+      return;
+    }
+
     if (e[alternateKey] && e.shiftKey && e.key === 'Backspace') {
       e.preventDefault();
       if (!disabled()) {
@@ -7,6 +7,7 @@ import { warn } from '../utils/log';
 import { getRancherVersion, uiVersion } from '../utils/version';
 import { compareSpecConfig, compareSpecTools, hasChanges } from '../utils/tools';
 import toolsConfigData from '../ui-tools.json';
+import { loadPluginUITools, registeredUITools } from '../components/tools/registry';
 import {
   UITool, UIToolsConfig, UIToolsConfigs, ToolsDefinitionActionType,
   ToolsDefinitionActionResult
@@ -20,6 +21,16 @@ const UI_VERSION_KEY = 'ui-version';
  */
 const toolsRequiredAction = ref<ToolsDefinitionActionType>(ToolsDefinitionActionType.None);
 
+/**
+ * The tools published to the ConfigMap: the bundled tools and the tools registered by other extensions.
+ */
+function providedTools(): UITool[] {
+  return [
+    ...toolsConfigData.tools as UITool[],
+    ...registeredUITools().map((registration) => registration.definition)
+  ];
+}
+
 /**
  * Composable for managing the UI tools configuration and interactions.
  * @returns Composable for managing the UI tools configuration and interactions.
@@ -62,6 +73,8 @@ export function useToolsComposable() {
   async function detectToolsDefinitionAction() {
     let configMap;
 
+    loadPluginUITools((store as any).$plugin);
+
     // First, check if the ConfigMap exists.
     try {
       configMap = await store.dispatch('management/find', {
@@ -88,9 +101,9 @@ export function useToolsComposable() {
       tools:  currentTools = [] as UITool[]
     } = configs;
 
-    // Compare the current ConfigMap data with the provided toolsConfigData
+    // Compare the current ConfigMap data with the provided tools and config
     const changesDetected = hasChanges(
-      toolsConfigData.tools,
+      providedTools(),
       currentTools,
       toolsConfigData.config,
       currentConfig
@@ -133,7 +146,7 @@ export function useToolsComposable() {
       data: {
         config: JSON.stringify({
           config: toolsConfigData.config,
-          tools:  toolsConfigData.tools
+          tools:  providedTools()
         }),
       }
     });
@@ -188,7 +201,8 @@ export function useToolsComposable() {
     // Build new tools array
     const newTools: UITool[] = [];
     const currentToolsByName = Object.fromEntries(currentTools.map((t) => [t.name, t]));
-    const providedToolsByName = Object.fromEntries(toolsConfigData.tools.map((t) => [t.name, t]));
+    const tools = providedTools();
+    const providedToolsByName = Object.fromEntries(tools.map((t) => [t.name, t]));
 
     for (const tool of currentTools) {
       if (!providedToolsByName[tool.name]) {
@@ -197,7 +211,7 @@ export function useToolsComposable() {
       }
     }
 
-    for (const tool of toolsConfigData.tools) {
+    for (const tool of tools) {
       if (!currentToolsByName[tool.name]) {
         // Add new tool
         newTools.push(tool);
@@ -0,0 +1,208 @@
+import {
+  computed, nextTick, onBeforeUnmount, onMounted, reactive, ref, type ComponentPublicInstance, type Ref
+} from 'vue';
+import { layoutRows, visibleRows } from '../utils/virtual';
+
+type RowRef = (elem: Element | ComponentPublicInstance | null) => void; // eslint-disable-line no-unused-vars
+
+interface VirtualScrollOptions {
+  estimatedHeight: number; // Height of the rows which were not rendered yet
+  gap?: number; // Space between two rows
+  overscan?: number; // Number of rows rendered outside the viewport, on each side
+  threshold?: number; // Lists with fewer rows are rendered entirely
+  onResize?: () => void; // Called when the height of a rendered row changes
+}
+
+/**
+ * Composable for rendering only the rows of a scrollable container which are in the viewport.
+ *
+ * Rows have a dynamic height: each row is measured once rendered, and the rows outside
+ * the window are replaced by spacers, so that the scroll height of the container is preserved.
+ *
+ * @param containerRef - Ref to the scrollable container element
+ * @param keys - Function that returns the keys of the rows, in display order. Keys must be unique across lists shown in the container
+ * @param options - Virtual scroll options
+ *
+ * @returns Object with the window of rendered rows and scroll utilities
+ */
+export function useVirtualScrollComposable(containerRef: Ref<HTMLDivElement | null>, keys: () => string[], options: VirtualScrollOptions) {
+  const {
+    estimatedHeight,
+    gap = 0,
+    overscan = 5,
+    threshold = 0,
+    onResize,
+  } = options;
+
+  const heights = reactive<Record<string, number>>({});
+  const scrollTop = ref(0);
+  const viewportHeight = ref(0);
+
+  const enabled = computed(() => keys().length > threshold);
+
+  const layout = computed(() => layoutRows(keys(), heights, estimatedHeight, gap));
+
+  /**
+   * Indexes of the rendered rows, end excluded
+   */
+  const range = computed(() => {
+    const { rows } = layout.value;
+
+    if (!enabled.value) {
+      return {
+        start: 0,
+        end:   rows.length
+      };
+    }
+
+    const visible = visibleRows(rows, scrollTop.value, viewportHeight.value || window.innerHeight, overscan);
+
+    // Scrolled past the end, e.g. the rows are shorter than estimated
+    if (!visible.length) {
+      return {
+        start: Math.max(0, rows.length - overscan),
+        end:   rows.length
+      };
+    }
+
+    const start = rows.indexOf(visible[0]);
+
+    return {
+      start,
+      end: start + visible.length
+    };
+  });
+
+  /**
+   * Heights of the spacers replacing the rows before and after the window
+   */
+  const spacers = computed(() => {
+    const { rows, height } = layout.value;
+    const { start, end } = range.value;
+
+    return {
+      top:    start > 0 ? rows[start].top - gap : 0,
+      bottom: end > 0 && end < rows.length ? height - (rows[end - 1].top + rows[end - 1].height) - gap : 0,
+    };
+  });
+
+  const elements = new Map<string, Element>();
+  const observed = new Map<Element, string>();
+  const refCallbacks = new Map<string, RowRef>();
+
+  let observer: ResizeObserver | null = null;
+
+  function onRowsResize(entries: ResizeObserverEntry[]) {
+    let changed = false;
+
+    entries.forEach((entry) => {
+      const key = observed.get(entry.target);
+      const height = (entry.target as HTMLElement).offsetHeight;
+
+      if (key !== undefined && height && heights[key] !== height) {
+        heights[key] = height;
+        changed = true;
+      }
+    });
+
+    if (changed && onResize) {
+      onResize();
+    }
+  }
+
+  function unobserve(key: string) {
+    const elem = elements.get(key);
+
+    if (elem) {
+      observer?.unobserve(elem);
+      observed.delete(elem);
+      elements.delete(key);
+    }
+  }
+
+  /**
+   * Returns the ref callback measuring the height of a row.
+   *
+   * Rows are measured even if the list is not virtualized yet, so that the spacers are accurate once it is.
+   */
+  function measureRef(key: string) {
+    let callback = refCallbacks.get(key);
+
+    if (!callback) {
+      callback = (value) => {
+        const elem = ((value as ComponentPublicInstance)?.$el || value) as Element | null;
+
+        if (elements.get(key) === elem) {
+          return;
+        }
+
+        unobserve(key);
+
+        if (elem?.nodeType !== Node.ELEMENT_NODE) {
+          return;
+        }
+
+        if (!observer && typeof ResizeObserver !== 'undefined') {
+          observer = new ResizeObserver(onRowsResize);
+        }
+
+        if (elem && observer) {
+          elements.set(key, elem);
+          observed.set(elem, key);
+          observer.observe(elem);
+        }
+      };
+
+      refCallbacks.set(key, callback);
+    }
+
+    return callback;
+  }
+
+  function updateScrollPosition() {
+    if (containerRef.value) {
+      scrollTop.value = containerRef.value.scrollTop;
+      viewportHeight.value = containerRef.value.clientHeight;
+    }
+  }
+
+  /**
+   * Scrolls to a row, which is rendered on the next tick.
+   *
+   * @param index Position of the row in the list
+   */
+  function scrollToIndex(index: number) {
+    const row = layout.value.rows[index];
+
+    if (enabled.value && containerRef.value && row) {
+      containerRef.value.scrollTop = row.top;
+      updateScrollPosition();
+    }
+
+    return nextTick();
+  }
+
+  onMounted(() => {
+    if (containerRef.value) {
+      containerRef.value.addEventListener('scroll', updateScrollPosition);
+      updateScrollPosition();
+    }
+  });
+
+  onBeforeUnmount(() => {
+    if (containerRef.value) {
+      containerRef.value.removeEventListener('scroll', updateScrollPosition);
+    }
+
+    observer?.disconnect();
+    observer = null;
+  });
+
+  return {
+    enabled,
+    range,
+    spacers,
+    measureRef,
+    scrollToIndex,
+  };
+}
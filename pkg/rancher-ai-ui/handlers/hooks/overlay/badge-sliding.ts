@@ -8,6 +8,7 @@ import { Context, HookContextTag } from '../../../types';
 import { HooksOverlay } from './index';
 import TemplateMessage from '../template-message';
 import Chat from '../../chat';
+import { DEFAULT_CHAT_ID } from '../../../store/chat';
 
 const enum Theme {
   Light = 'light', // eslint-disable-line no-unused-vars
@@ -349,7 +350,7 @@ class BadgeSlidingOverlay extends HooksOverlay {
     const message = TemplateMessage.fill(store, ctx, globalCtx);
 
     store.commit('rancher-ai-ui/chat/addToMessageBox', {
-      chatId: 'default',
+      chatId: store.getters['rancher-ai-ui/chat/activeTab'] || DEFAULT_CHAT_ID,
       message,
     });
 
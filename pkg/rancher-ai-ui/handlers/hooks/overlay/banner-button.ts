@@ -4,6 +4,7 @@ import { Context } from '../../../types';
 import TemplateMessage from '../template-message';
 import { HooksOverlay } from './index';
 import Chat from '../../chat';
+import { DEFAULT_CHAT_ID } from '../../../store/chat';
 
 /**
  * Overlay that adds a button to status banners allowing
@@ -118,7 +119,7 @@ class BannerButtonOverlay extends HooksOverlay {
     }, globalCtx);
 
     store.commit('rancher-ai-ui/chat/addToMessageBox', {
-      chatId: 'default',
+      chatId: store.getters['rancher-ai-ui/chat/activeTab'] || DEFAULT_CHAT_ID,
       message,
     });
 
@@ -14,6 +14,11 @@ import BadgeSlidingOverlay from './handlers/hooks/overlay/badge-sliding';
 import BannerButtonOverlay from  './handlers/hooks/overlay/banner-button';
 import { NotificationLevel } from '@shell/types/notifications';
 
+// Tools contributed by other extensions, see components/tools/README.md
+export { registerUITool, unregisterUITool } from './components/tools/registry';
+export { UI_TOOL_PLUGIN_TYPE } from './components/tools/types';
+export type { UIToolRegistration } from './components/tools/types';
+
 // Init the package
 export default function(plugin: IPlugin, { store }: any): void {
   const isDev = (plugin as any).builtin; // Running in development mode
@@ -50,7 +55,7 @@ export default function(plugin: IPlugin, { store }: any): void {
   plugin.addRoutes(extensionRouting);
 
   // Register the Chat component
-  plugin.register('component', 'ChatComponent', defineAsyncComponent(() => import('./pages/Chat.vue')) as Function);
+  plugin.register('component', 'ChatComponent', defineAsyncComponent(() => import('./pages/ChatTabs.vue')) as Function);
 
   // Open chat window action
   plugin.addAction(
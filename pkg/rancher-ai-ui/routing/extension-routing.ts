@@ -1,6 +1,7 @@
 import { PRODUCT_NAME } from '../product';
 import Settings from '../pages/settings/Settings.vue';
 import Staging from '../pages/staging/index.vue';
+import Shared from '../pages/shared/index.vue';
 
 const routes = [
   {
@@ -13,6 +14,11 @@ const routes = [
     component: Staging,
     name:      `c-cluster-${ PRODUCT_NAME }-staging`
   },
+  {
+    path:      `/c/:cluster/:product/shared/:id`,
+    component: Shared,
+    name:      `c-cluster-${ PRODUCT_NAME }-shared`
+  },
 ];
 
 export default routes;
@@ -0,0 +1,265 @@
+import {
+  describe, it, expect, beforeEach, afterEach, jest
+} from '@jest/globals';
+import connection, { QUEUE_STORAGE_KEY } from '../connection';
+import { AIAgentAPIEvent, ConnectionPhase, OutboundMessage, OutboundMessageKind } from '../../types';
+import { HEARTBEAT_DEFAULTS, HEARTBEAT_TIMEOUT_DISCONNECT, RECONNECT_MAX_DELAY } from '../../utils/ws';
+
+const {
+  state: initState, getters, mutations, actions
+} = connection.specifics as any;
+
+class MockWebSocket {
+  static OPEN = 1;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  url: string;
+  readyState = 0;
+  onopen: Function | null = null;
+  onmessage: Function | null = null;
+  onclose: Function | null = null;
+  onerror: Function | null = null;
+  send = jest.fn();
+  close = jest.fn((code?: number, reason?: string) => {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({
+      code,
+      reason
+    });
+  });
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.({});
+  }
+}
+
+/**
+ * Runs the mutations and actions of the store, root commits are ignored.
+ */
+function createStore() {
+  const store: any = { state: initState() };
+
+  store.commit = (type: string, payload: any, options?: { root?: boolean }) => !options?.root && mutations[type](store.state, payload);
+  store.dispatch = (type: string, payload: any) => actions[type](store, payload);
+
+  return store;
+}
+
+function outbound(chatId: string, messageId: number, historyChatId?: string): OutboundMessage {
+  return {
+    chatId,
+    historyChatId,
+    messageId,
+    kind:    OutboundMessageKind.Prompt,
+    payload: `prompt ${ messageId }`,
+    message: { messageContent: `prompt ${ messageId }` }
+  };
+}
+
+describe('connection store', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  describe('outbound queue', () => {
+    it('should save the queue in the session storage, keyed by the chat id of the agent', () => {
+      const state = initState();
+
+      mutations.enqueue(state, outbound('default', 1, 'agent-chat-1'));
+      mutations.enqueue(state, outbound('default', 2, 'agent-chat-1'));
+      mutations.enqueue(state, outbound('chat-1', 1, 'agent-chat-2'));
+      mutations.enqueue(state, outbound('chat-2', 1));
+
+      expect(JSON.parse(window.sessionStorage.getItem(`${ QUEUE_STORAGE_KEY }/agent-chat-1`) || '[]')).toStrictEqual([
+        outbound('default', 1, 'agent-chat-1'),
+        outbound('default', 2, 'agent-chat-1')
+      ]);
+      expect(JSON.parse(window.sessionStorage.getItem(`${ QUEUE_STORAGE_KEY }/agent-chat-2`) || '[]')).toStrictEqual([outbound('chat-1', 1, 'agent-chat-2')]);
+
+      // The chat is not created by the agent yet
+      expect(Object.keys(window.sessionStorage)).toHaveLength(2);
+
+      mutations.dequeue(state, {
+        chatId:    'default',
+        messageId: 1
+      });
+      mutations.clearQueue(state, 'chat-1');
+
+      expect(JSON.parse(window.sessionStorage.getItem(`${ QUEUE_STORAGE_KEY }/agent-chat-1`) || '[]')).toStrictEqual([outbound('default', 2, 'agent-chat-1')]);
+      expect(window.sessionStorage.getItem(`${ QUEUE_STORAGE_KEY }/agent-chat-2`)).toBeNull();
+    });
+
+    it('should restore the queue saved before a page reload for the tab connected to its chat', () => {
+      mutations.enqueue(initState(), outbound('default', 1, 'agent-chat-1'));
+
+      const state = initState();
+
+      expect(state.queue).toStrictEqual([{
+        ...outbound('', 1, 'agent-chat-1'),
+        restored: true
+      }]);
+
+      // A new chat in the default tab
+      mutations.clearQueue(state, 'default');
+      mutations.adoptQueue(state, {
+        chatId:        'default',
+        historyChatId: 'agent-chat-2'
+      });
+
+      expect(getters.queue(state)('default')).toStrictEqual([]);
+
+      mutations.adoptQueue(state, {
+        chatId:        'chat-1',
+        historyChatId: 'agent-chat-1'
+      });
+
+      expect(getters.queue(state)('chat-1')).toStrictEqual([{
+        ...outbound('chat-1', 1, 'agent-chat-1'),
+        restored: true
+      }]);
+
+      mutations.clearQueue(state);
+
+      expect(initState().queue).toStrictEqual([]);
+    });
+  });
+
+  describe('removed connections', () => {
+    const originalWebSocket = window.WebSocket;
+
+    beforeEach(() => {
+      MockWebSocket.instances = [];
+      (window as any).WebSocket = MockWebSocket;
+    });
+
+    afterEach(() => {
+      window.WebSocket = originalWebSocket;
+    });
+
+    it('should not create the connection again from the socket handlers of a removed chat', async() => {
+      const store = createStore();
+      const onmessage = jest.fn();
+
+      await store.dispatch('open', {
+        chatId: 'chat-1',
+        url:    'wss://agent',
+        onmessage
+      });
+
+      const ws = MockWebSocket.instances[0];
+
+      store.commit('close', { chatId: 'chat-1' });
+      store.commit('remove', 'chat-1');
+
+      ws.open();
+      ws.onmessage?.({ data: 'chunk' });
+      ws.onerror?.({});
+      store.dispatch('startHeartbeat', 'chat-1');
+
+      expect(ws.close).toHaveBeenCalledTimes(1);
+      expect(onmessage).not.toHaveBeenCalled();
+      expect(store.state.connections['chat-1']).toBeUndefined();
+    });
+  });
+
+  describe('heartbeat', () => {
+    const { interval, maxMissed, closeAfterMissed } = HEARTBEAT_DEFAULTS;
+    const originalWebSocket = window.WebSocket;
+
+    let store: any;
+
+    async function connect() {
+      await store.dispatch('open', {
+        chatId: 'chat-1',
+        url:    'wss://agent'
+      });
+
+      const ws = MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+      ws.open();
+      store.dispatch('startHeartbeat', 'chat-1');
+
+      return ws;
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      MockWebSocket.instances = [];
+      (window as any).WebSocket = MockWebSocket;
+
+      store = createStore();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      window.WebSocket = originalWebSocket;
+    });
+
+    it('should ping the agent at every interval and count the missed pongs', async() => {
+      const ws = await connect();
+
+      jest.advanceTimersByTime(interval);
+
+      expect(ws.send).toHaveBeenCalledWith(AIAgentAPIEvent.Ping);
+      expect(store.state.connections['chat-1'].missedPongs).toBe(1);
+
+      ws.onmessage?.({ data: AIAgentAPIEvent.Pong });
+
+      expect(store.state.connections['chat-1'].missedPongs).toBe(0);
+
+      jest.advanceTimersByTime(interval * 2);
+
+      expect(ws.send).toHaveBeenCalledTimes(3);
+      expect(store.state.connections['chat-1'].missedPongs).toBe(2);
+    });
+
+    it('should degrade the connection after the missed pongs and restore the previous phase when the agent answers', async() => {
+      const ws = await connect();
+
+      store.commit('setPhase', {
+        chatId: 'chat-1',
+        phase:  ConnectionPhase.Connected
+      });
+
+      jest.advanceTimersByTime(interval * maxMissed);
+
+      expect(store.state.connections['chat-1'].phase).toBe(ConnectionPhase.Connected);
+
+      jest.advanceTimersByTime(interval);
+
+      expect(store.state.connections['chat-1'].phase).toBe(ConnectionPhase.Degraded);
+
+      ws.onmessage?.({ data: 'chunk' });
+
+      expect(store.state.connections['chat-1'].phase).toBe(ConnectionPhase.Connected);
+    });
+
+    it('should close and reconnect the connection when the agent doesn\'t answer', async() => {
+      const ws = await connect();
+
+      jest.advanceTimersByTime(interval * (closeAfterMissed + 1));
+
+      expect(ws.close).toHaveBeenCalledWith(...HEARTBEAT_TIMEOUT_DISCONNECT);
+      expect(store.state.connections['chat-1'].phase).toBe(ConnectionPhase.Reconnecting);
+      expect(store.state.connections['chat-1'].heartbeatTimer).toBeNull();
+
+      jest.advanceTimersByTime(RECONNECT_MAX_DELAY);
+
+      expect(MockWebSocket.instances).toHaveLength(2);
+
+      // The heartbeat support is known from the previous connection
+      MockWebSocket.instances[1].open();
+
+      jest.advanceTimersByTime(interval);
+
+      expect(MockWebSocket.instances[1].send).toHaveBeenCalledWith(AIAgentAPIEvent.Ping);
+    });
+  });
+});
@@ -3,56 +3,125 @@ import { CoreStoreSpecifics, CoreStoreConfig } from '@shell/core/types';
 import {
   ChatError,
   ChatMetadata,
-  ConfirmationStatus, Message, MessageInternalSource, MessagePhase, MessageProcessingState, Role
+  ConfirmationStatus, Message, MessageFocus, MessageInternalSource, MessagePhase, MessageProcessingState, MessageVersions, Role
 } from '../types';
 
 /**
  * Manages the state of chat conversations within the Rancher AI UI.
  *
- * At the moment, we only use a single chat, but this structure allows
- * for future expansion to multiple concurrent chats (chat history).
+ * Multiple chats can be open at the same time, one per tab. Each chat has its own metadata
+ * (the chat id returned by the agent) and its own connection (see connection store).
+ * Chats are keyed by a local id, DEFAULT_CHAT_ID being the first tab.
+ *
+ * The messages of a chat are a tree: each message has the id of its parent, the messages sharing
+ * a parent are alternate versions (e.g. a regenerated reply or an edited prompt).
+ * The conversation shown is the path following the selected child of each message, from the root.
  */
 
+export const DEFAULT_CHAT_ID = 'default';
+export const MAX_CHAT_TABS = 5;
+
 interface Chat {
   id: string;
   msgIdCnt?: number;
   agentName?: string;
+  metadata?: ChatMetadata | null;
   messages: Record<string, Message>;
+  selected: Record<string, number>; // selected child, keyed by parent id
   processingState?: MessageProcessingState;
   error?: ChatError | null;
+  imported?: { name?: string } | null; // imported from a file, read-only
+  focus?: MessageFocus | null; // message to scroll to
 }
 
 type MessageBox = Record<string, Message>;
 
 interface State {
   session:  Record<string, any>;
-  metadata: ChatMetadata | null;
   chats: Record<string, Chat>;
+  tabs: string[];
+  activeTab: string;
+  tabIdCnt: number;
   messageBox: MessageBox
 }
 
+const ROOT = 'root';
+
+function parentKey(parentId?: number | string | null): string {
+  return parentId ? `${ parentId }` : ROOT;
+}
+
+/**
+ * Returns the messages of the conversation shown, following the selected child of each message.
+ */
+function activePath(chat?: Chat): Message[] {
+  const path: Message[] = [];
+  let id = chat?.selected[ROOT];
+
+  while (chat && id !== undefined && chat.messages[id]) {
+    path.push(chat.messages[id]);
+    id = chat.selected[parentKey(id)];
+  }
+
+  return path;
+}
+
+function childrenOf(chat: Chat): Record<string, number[]> {
+  return Object.values(chat.messages).reduce((acc, message) => {
+    const key = parentKey(message.parentId);
+
+    acc[key] = [...(acc[key] || []), message.id as number];
+
+    return acc;
+  }, {} as Record<string, number[]>);
+}
+
 const getters = {
   session: (state: State) => {
     return state.session;
   },
-  metadata: (state: State) => {
-    return state.metadata;
+  metadata: (state: State) => (chatId: string) => {
+    return state.chats[chatId]?.metadata || null;
+  },
+  tabs: (state: State) => {
+    return state.tabs;
+  },
+  activeTab: (state: State) => {
+    return state.activeTab;
+  },
+  tabOf: (state: State) => (metadataChatId: string) => {
+    return state.tabs.find((tab) => !!metadataChatId && state.chats[tab]?.metadata?.chatId === metadataChatId) || null;
+  },
+  imported: (state: State) => (chatId: string) => {
+    return state.chats[chatId]?.imported || null;
+  },
+  focus: (state: State) => (chatId: string) => {
+    return state.chats[chatId]?.focus || null;
   },
   agentName: (state: State) => (chatId: string) => {
     return state.chats[chatId]?.agentName;
   },
   messages: (state: State) => (chatId: string) => {
-    return state.chats[chatId]?.messages || {};
+    return activePath(state.chats[chatId]).reduce((acc, message) => ({
+      ...acc,
+      [message.id as number]: message
+    }), {} as Record<string, Message>);
+  },
+  /**
+   * All the messages of the chat, including the versions not shown.
+   */
+  allMessages: (state: State) => (chatId: string) => {
+    return Object.values(state.chats[chatId]?.messages || {});
   },
   message: (state: State) => ({ chatId, messageId }: { chatId: string; messageId: number | string }) => {
     return state.chats[chatId]?.messages[messageId] || null;
   },
   processingState: (state: State) => (chatId: string) => {
-    if (!state.metadata?.chatId) {
+    if (!state.chats[chatId]?.metadata?.chatId) {
       return { phase: MessagePhase.Setup };
     }
 
-    const messages = Object.values(state.chats[chatId]?.messages || {});
+    const messages = activePath(state.chats[chatId]);
 
     if (
       messages.length && messages[messages.length - 1]?.role === Role.Assistant &&
@@ -78,6 +147,33 @@ const getters = {
 
     return { phase: MessagePhase.Idle };
   },
+  /**
+   * Versions of the messages of the conversation shown, keyed by message id.
+   * Only the messages having alternate versions (siblings) are included.
+   */
+  versions: (state: State) => (chatId: string) => {
+    const chat = state.chats[chatId];
+    const out: Record<string, MessageVersions> = {};
+
+    if (!chat) {
+      return out;
+    }
+
+    const children = childrenOf(chat);
+
+    activePath(chat).forEach((message) => {
+      const messageIds = children[parentKey(message.parentId)] || [];
+
+      if (messageIds.length > 1) {
+        out[message.id as number] = {
+          index: messageIds.indexOf(message.id as number),
+          messageIds
+        };
+      }
+    });
+
+    return out;
+  },
   error: (state: State) => (chatId: string) => {
     return state.chats[chatId]?.error || null;
   },
@@ -93,8 +189,9 @@ const mutations = {
     }
 
     state.chats[chatId] = {
-      id:       chatId,
+      id:           chatId,
       messages: {},
+      selected: {},
     };
   },
 
@@ -105,15 +202,64 @@ const mutations = {
     };
   },
 
-  setMetadata(state: State, metadata: ChatMetadata) {
-    if (state.metadata?.chatId && state.chats[state.metadata.chatId]) {
-      state.chats[state.metadata.chatId].error = null;
+  setMetadata(state: State, args: { chatId: string; metadata: Partial<ChatMetadata> }) {
+    const { chatId, metadata } = args;
+
+    if (!chatId || !state.chats[chatId]) {
+      return;
     }
 
-    state.metadata = {
-      ...state.metadata,
+    state.chats[chatId].error = null;
+
+    state.chats[chatId].metadata = {
+      ...state.chats[chatId].metadata,
       ...metadata
-    };
+    } as ChatMetadata;
+  },
+
+  createTab(state: State) {
+    if (state.tabs.length >= MAX_CHAT_TABS) {
+      return;
+    }
+
+    const chatId = `chat-${ ++state.tabIdCnt }`;
+
+    state.tabs.push(chatId);
+    state.activeTab = chatId;
+  },
+
+  setActiveTab(state: State, chatId: string) {
+    if (state.tabs.includes(chatId)) {
+      state.activeTab = chatId;
+    }
+  },
+
+  closeTab(state: State, chatId: string) {
+    const index = state.tabs.indexOf(chatId);
+
+    // The last tab can't be closed
+    if (index === -1 || state.tabs.length === 1) {
+      return;
+    }
+
+    state.tabs.splice(index, 1);
+
+    if (state.activeTab === chatId) {
+      state.activeTab = state.tabs[Math.max(0, index - 1)];
+    }
+
+    delete state.chats[chatId];
+    delete state.messageBox[chatId];
+  },
+
+  setImported(state: State, args: { chatId: string; imported: { name?: string } | null }) {
+    const { chatId, imported } = args;
+
+    if (!chatId || !state.chats[chatId]) {
+      return;
+    }
+
+    state.chats[chatId].imported = imported;
   },
 
   setAgentName(state: State, args: { chatId: string; agentName: string }) {
@@ -138,13 +284,65 @@ const mutations = {
     }
 
     const msgId = ++state.chats[chatId].msgIdCnt;
+    const parentId = activePath(state.chats[chatId]).pop()?.id as number | undefined;
 
     message.timestamp = message.timestamp || new Date();
 
     state.chats[chatId].messages[msgId] = {
       ...message,
-      id: msgId
+      id:       msgId,
+      parentId: parentId ?? null
     };
+    state.chats[chatId].selected[parentKey(parentId)] = msgId;
+  },
+
+  /**
+   * Forks the conversation at the given message: the next message added is an alternate version of it.
+   */
+  fork(state: State, args: { chatId: string; messageId: number }) {
+    const { chatId, messageId } = args;
+    const chat = state.chats[chatId];
+
+    if (!chat || !activePath(chat).find((m) => m.id === messageId)) {
+      return;
+    }
+
+    delete chat.selected[parentKey(chat.messages[messageId].parentId)];
+  },
+
+  /**
+   * Shows the given version of a message, and the conversation following it.
+   */
+  selectVersion(state: State, args: { chatId: string; messageId: number }) {
+    const { chatId, messageId } = args;
+    const message = state.chats[chatId]?.messages[messageId];
+
+    if (message) {
+      state.chats[chatId].selected[parentKey(message.parentId)] = messageId;
+    }
+  },
+
+  /**
+   * Shows the conversation leading to the given message, selecting the message and each of its ancestors.
+   */
+  selectPath(state: State, args: { chatId: string; messageId: number }) {
+    const { chatId, messageId } = args;
+    let message: Message | undefined = state.chats[chatId]?.messages[messageId];
+
+    while (message) {
+      state.chats[chatId].selected[parentKey(message.parentId)] = message.id as number;
+      message = message.parentId ? state.chats[chatId].messages[message.parentId] : undefined;
+    }
+  },
+
+  setFocus(state: State, args: { chatId: string; focus: MessageFocus | null }) {
+    const { chatId, focus } = args;
+
+    if (!chatId || !state.chats[chatId]) {
+      return;
+    }
+
+    state.chats[chatId].focus = focus;
   },
 
   updateMessage(state: State, args: { chatId: string; message: Partial<Message> }) {
@@ -160,30 +358,51 @@ const mutations = {
     });
   },
 
+  /**
+   * Loads the messages of a chat from the history.
+   *
+   * When the agent supports branches, messages have a history id and the history id of their parent,
+   * otherwise each message is a reply to the previous one.
+   * The latest version of each message is selected.
+   */
   loadMessages(state: State, args: { chatId: string; messages: Message[] }) {
     const { chatId, messages } = args;
+    const chat = state.chats[chatId];
 
-    if (!chatId || !state.chats[chatId]) {
+    if (!chatId || !chat) {
       return;
     }
 
-    state.chats[chatId].msgIdCnt = undefined;
-    state.chats[chatId].messages = {};
+    chat.msgIdCnt = 0;
+    chat.messages = {};
+    chat.selected = {};
+
+    const ids: Record<string, number> = {};
+    let previousId: number | null = null;
 
     messages.forEach((message) => {
-      if (state.chats[chatId].msgIdCnt === undefined) {
-        state.chats[chatId].msgIdCnt = 0;
-      }
+      const msgId = ++(chat.msgIdCnt as number);
+      const parentId = message.historyParentId !== undefined ? (message.historyParentId ? ids[message.historyParentId] ?? null : null) : previousId;
 
-      const msgId = ++state.chats[chatId].msgIdCnt;
+      if (message.historyId) {
+        ids[message.historyId] = msgId;
+      }
 
       message.timestamp = message.timestamp || new Date();
 
-      state.chats[chatId].messages[msgId] = {
+      chat.messages[msgId] = {
         ...message,
-        id: msgId
+        id: msgId,
+        parentId
       };
+      chat.selected[parentKey(parentId)] = msgId;
+
+      previousId = msgId;
     });
+
+    if (!messages.length) {
+      chat.msgIdCnt = undefined;
+    }
   },
 
   resetMessages(state: State, chatId: string) {
@@ -192,6 +411,7 @@ const mutations = {
     }
 
     state.chats[chatId].messages = {};
+    state.chats[chatId].selected = {};
   },
 
   setProcessingState(state: State, args: { chatId: string; processingState: MessageProcessingState }) {
@@ -221,7 +441,7 @@ const mutations = {
       return;
     }
 
-    const lastMessage = state.chats[chatId]?.messages[state.chats[chatId].msgIdCnt || 0];
+    const lastMessage = activePath(state.chats[chatId]).pop();
 
     // Confirmation in progress, skip
     if (lastMessage?.confirmation?.status === ConfirmationStatus.Pending) {
@@ -261,6 +481,39 @@ const actions = {
     }
   },
 
+  createTab({ commit, state }: { commit: Function; state: State }) {
+    commit('createTab');
+
+    return state.activeTab;
+  },
+
+  /**
+   * Opens the messages of an imported chat, read-only, in a new tab.
+   *
+   * @returns The id of the tab, null if no more tabs can be open
+   */
+  importChat({ commit, state }: { commit: Function; state: State }, { name, messages }: { name?: string; messages: Message[] }) {
+    if (state.tabs.length >= MAX_CHAT_TABS) {
+      return null;
+    }
+
+    commit('createTab');
+
+    const chatId = state.activeTab;
+
+    commit('init', chatId);
+    commit('loadMessages', {
+      chatId,
+      messages
+    });
+    commit('setImported', {
+      chatId,
+      imported: { name }
+    });
+
+    return chatId;
+  },
+
   async addMessage({ commit, state }: { commit: Function; state: State }, { chatId, message }: { chatId: string; message: Message }) {
     commit('addMessage', {
       chatId,
@@ -283,8 +536,10 @@ const factory = (): CoreStoreSpecifics => {
     state: (): State => {
       return {
         session:    {},
-        metadata:   null,
         chats:      {},
+        tabs:       [DEFAULT_CHAT_ID],
+        activeTab:  DEFAULT_CHAT_ID,
+        tabIdCnt:   0,
         messageBox: {},
       };
     },
@@ -1,114 +1,514 @@
 import { PERMISSIONS_DOCS_URL, PRODUCT_NAME } from '../product';
 import { CoreStoreSpecifics, CoreStoreConfig } from '@shell/core/types';
 import { error } from '../utils/log';
-import { ConnectionError, ConnectionParams, ConnectionPhase } from '../types';
-import { isManualDisconnect, MANUAL_DISCONNECT } from '../utils/ws';
+import {
+  AIAgentAPIEvent, ConnectionError, ConnectionParams, ConnectionPhase, HeartbeatConfig, MessageDeliveryStatus, OutboundMessage
+} from '../types';
+import {
+  HEARTBEAT_DEFAULTS, HEARTBEAT_TIMEOUT_DISCONNECT, isManualDisconnect, MANUAL_DISCONNECT, RECONNECT_MAX_ATTEMPTS, reconnectDelay
+} from '../utils/ws';
 
 /**
  * Manages the state of WebSocket connections within the Rancher AI UI.
+ *
+ * Each chat has its own connection, keyed by the chat id, so that chats keep streaming in background.
+ *
+ * When an established connection drops unexpectedly (e.g. an ingress or proxy idle timeout),
+ * the store reconnects automatically with jittered exponential backoff, up to RECONNECT_MAX_ATTEMPTS.
+ *
+ * Messages sent while the connection is not open are kept in the outbound queue, in order,
+ * until the connection is open again. They are marked as failed when the connection is lost for good.
+ * The queue is saved in the session storage, keyed by the chat id of the agent, so that it survives a page reload.
+ * Restored messages belong to no tab until a tab is connected to their chat again, see `adoptQueue`.
+ *
+ * Agents that support it are pinged periodically (heartbeat): any message received from the agent proves the link is alive.
+ * After `maxMissed` unanswered pings the connection is Degraded, after `closeAfterMissed` it is dropped and reconnected.
  */
 
-interface State {
+interface Connection {
   ws: WebSocket | null;
   phase: ConnectionPhase;
   error: ConnectionError | null;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  heartbeatEnabled: boolean;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  missedPongs: number;
+  phaseBeforeDegraded: ConnectionPhase | null; // restored once the agent answers again
+}
+
+interface State {
+  connections: Record<string, Connection>;
+  queue: OutboundMessage[];
+  heartbeat: HeartbeatConfig;
+}
+
+type ActionContext = { commit: Function, dispatch: Function, state: State };
+
+export const QUEUE_STORAGE_KEY = `${ PRODUCT_NAME }-outbound-queue`;
+
+function initConnection(): Connection {
+  return {
+    ws:                  null,
+    phase:               ConnectionPhase.Idle,
+    error:               null,
+    reconnectAttempts:   0,
+    reconnectTimer:      null,
+    heartbeatEnabled:    false,
+    heartbeatTimer:      null,
+    missedPongs:         0,
+    phaseBeforeDegraded: null,
+  };
+}
+
+/**
+ * Returns the connection of the chat, it is created if it doesn't exist (mutations only).
+ */
+function connectionOf(state: State, chatId: string): Connection {
+  if (!state.connections[chatId]) {
+    state.connections[chatId] = initConnection();
+  }
+
+  return state.connections[chatId];
+}
+
+function clearHeartbeatTimer(connection: Connection) {
+  if (connection.heartbeatTimer) {
+    clearInterval(connection.heartbeatTimer);
+    connection.heartbeatTimer = null;
+  }
+
+  connection.missedPongs = 0;
+}
+
+/**
+ * Reads the outbound queues saved in the session storage, the messages are flagged as restored.
+ */
+function readQueue(): OutboundMessage[] {
+  try {
+    return Object.keys(window.sessionStorage)
+      .filter((key) => key.startsWith(`${ QUEUE_STORAGE_KEY }/`))
+      .flatMap((key) => JSON.parse(window.sessionStorage.getItem(key) || '[]') as OutboundMessage[])
+      .map((msg) => ({
+        ...msg,
+        chatId:   '',
+        restored: true
+      }));
+  } catch (e) {
+    error('Failed to read the outbound queue: ', e);
+
+    return [];
+  }
+}
+
+/**
+ * Saves the outbound queue of an agent chat in the session storage.
+ * Messages of chats not created by the agent yet have nothing to be restored in, they are not saved.
+ */
+function saveQueue(state: State, historyChatId?: string) {
+  if (!historyChatId) {
+    return;
+  }
+
+  const key = `${ QUEUE_STORAGE_KEY }/${ historyChatId }`;
+  const queue = state.queue.filter((msg) => msg.historyChatId === historyChatId).map((msg) => ({
+    ...msg,
+    restored: undefined
+  }));
+
+  try {
+    if (queue.length) {
+      window.sessionStorage.setItem(key, JSON.stringify(queue));
+    } else {
+      window.sessionStorage.removeItem(key);
+    }
+  } catch (e) {
+    error('Failed to save the outbound queue: ', e);
+  }
+}
+
+function clearReconnectTimer(connection: Connection): boolean {
+  const pending = !!connection.reconnectTimer;
+
+  if (connection.reconnectTimer) {
+    clearTimeout(connection.reconnectTimer);
+    connection.reconnectTimer = null;
+  }
+
+  return pending;
 }
 
 const getters = {
-  ws:    (state: State) => state.ws,
-  phase: (state: State) => state.phase,
-  error: (state: State) => state.error,
+  ws:                (state: State) => (chatId: string) => state.connections[chatId]?.ws || null,
+  phase:             (state: State) => (chatId: string) => state.connections[chatId]?.phase || ConnectionPhase.Idle,
+  error:             (state: State) => (chatId: string) => state.connections[chatId]?.error || null,
+  reconnectAttempts: (state: State) => (chatId: string) => state.connections[chatId]?.reconnectAttempts || 0,
+  queue:             (state: State) => (chatId: string) => state.queue.filter((msg) => msg.chatId === chatId),
 };
 
 const mutations = {
-  open(state: State, ws: WebSocket) {
-    if (state.ws) {
+  open(state: State, { chatId, ws }: { chatId: string; ws: WebSocket }) {
+    const connection = connectionOf(state, chatId);
+
+    if (connection.ws) {
       return;
     }
-    state.ws = ws;
+    connection.ws = ws;
 
-    state.phase = ConnectionPhase.Idle;
+    connection.phase = ConnectionPhase.Idle;
+    connection.reconnectAttempts = 0;
+  },
+  setPhase(state: State, { chatId, phase }: { chatId: string; phase: ConnectionPhase }) {
+    connectionOf(state, chatId).phase = phase;
   },
-  setPhase(state: State, phase: ConnectionPhase) {
-    state.phase = phase;
+  send(state: State, { chatId, message }: { chatId: string; message: string }) {
+    state.connections[chatId]?.ws?.send(message);
   },
-  send(state: State, message: string) {
-    if (state.ws) {
-      state.ws.send(message);
+  close(state: State, { chatId, phase = ConnectionPhase.Disconnected }: { chatId: string; phase?: ConnectionPhase }) {
+    const connection = state.connections[chatId];
+
+    if (!connection) {
+      return;
     }
+
+    const reconnecting = clearReconnectTimer(connection);
+
+    clearHeartbeatTimer(connection);
+
+    connection.reconnectAttempts = 0;
+
+    if (connection.ws) {
+      connection.phase = phase;
+
+      connection.ws.close(...MANUAL_DISCONNECT);
+    } else if (reconnecting) {
+      connection.phase = phase;
+    }
+  },
+  remove(state: State, chatId: string) {
+    delete state.connections[chatId];
   },
-  close(state: State, { phase }: { phase: ConnectionPhase } = { phase: ConnectionPhase.Disconnected }) {
-    if (state.ws) {
-      state.phase = phase;
+  scheduleReconnect(state: State, { chatId, timer }: { chatId: string; timer: ReturnType<typeof setTimeout> }) {
+    const connection = connectionOf(state, chatId);
 
-      state.ws.close(...MANUAL_DISCONNECT);
+    clearReconnectTimer(connection);
+
+    connection.reconnectTimer = timer;
+    connection.reconnectAttempts++;
+    connection.phase = ConnectionPhase.Reconnecting;
+  },
+  cancelReconnect(state: State, { chatId, reset = false }: { chatId: string; reset?: boolean }) {
+    const connection = connectionOf(state, chatId);
+
+    clearReconnectTimer(connection);
+
+    if (reset) {
+      connection.reconnectAttempts = 0;
     }
   },
-  setError(state: State, error: ConnectionError | null) {
-    state.error = error;
+  setError(state: State, { chatId, error }: { chatId: string; error: ConnectionError | null }) {
+    connectionOf(state, chatId).error = error;
+  },
+  setHeartbeat(state: State, config: Partial<HeartbeatConfig> = {}) {
+    state.heartbeat = {
+      ...state.heartbeat,
+      ...config
+    };
+  },
+  startHeartbeat(state: State, { chatId, timer }: { chatId: string; timer: ReturnType<typeof setInterval> }) {
+    const connection = connectionOf(state, chatId);
+
+    clearHeartbeatTimer(connection);
+
+    connection.heartbeatEnabled = true;
+    connection.heartbeatTimer = timer;
+  },
+  stopHeartbeat(state: State, chatId: string) {
+    if (state.connections[chatId]) {
+      clearHeartbeatTimer(state.connections[chatId]);
+    }
+  },
+  missedPong(state: State, chatId: string) {
+    connectionOf(state, chatId).missedPongs++;
+  },
+  degrade(state: State, chatId: string) {
+    const connection = connectionOf(state, chatId);
+
+    if (connection.phase !== ConnectionPhase.Degraded) {
+      connection.phaseBeforeDegraded = connection.phase;
+      connection.phase = ConnectionPhase.Degraded;
+    }
+  },
+  alive(state: State, chatId: string) {
+    const connection = connectionOf(state, chatId);
+
+    connection.missedPongs = 0;
+
+    if (connection.phase === ConnectionPhase.Degraded) {
+      connection.phase = connection.phaseBeforeDegraded || ConnectionPhase.Idle;
+    }
+
+    connection.phaseBeforeDegraded = null;
+  },
+  enqueue(state: State, message: OutboundMessage) {
+    state.queue.push(message);
+
+    saveQueue(state, message.historyChatId);
+  },
+  dequeue(state: State, { chatId, messageId }: { chatId: string; messageId: number | string }) {
+    const historyChatIds = new Set(state.queue.filter((msg) => msg.chatId === chatId && msg.messageId === messageId).map((msg) => msg.historyChatId));
+
+    state.queue = state.queue.filter((msg) => msg.chatId !== chatId || msg.messageId !== messageId);
+
+    historyChatIds.forEach((id) => saveQueue(state, id));
+  },
+  clearQueue(state: State, chatId?: string) {
+    const historyChatIds = new Set(state.queue.filter((msg) => !chatId || msg.chatId === chatId).map((msg) => msg.historyChatId));
+
+    state.queue = chatId ? state.queue.filter((msg) => msg.chatId !== chatId) : [];
+
+    historyChatIds.forEach((id) => saveQueue(state, id));
+  },
+  /**
+   * Hands the messages restored for an agent chat over to the tab connected to it.
+   */
+  adoptQueue(state: State, { chatId, historyChatId }: { chatId: string; historyChatId: string }) {
+    state.queue
+      .filter((msg) => msg.restored && !msg.chatId && msg.historyChatId === historyChatId)
+      .forEach((msg) => {
+        msg.chatId = chatId;
+      });
   },
 };
 
 const actions = {
-  async open({ commit, state }: { commit: Function, state: State }, params: ConnectionParams) {
-    if (state.ws) {
+  async open({ commit, dispatch, state }: ActionContext, params: ConnectionParams) {
+    const { chatId } = params;
+
+    if (state.connections[chatId]?.ws) {
       return;
     }
 
+    // An explicit connection request takes over any pending reconnection
+    commit('cancelReconnect', { chatId });
+
     const {
-      url, onopen, onmessage, onclose
+      url, onopen, onmessage, onclose, heartbeat
     } = params;
 
+    commit('setHeartbeat', heartbeat);
+
+    const connection = state.connections[chatId];
+
+    // The connection was removed while the socket was still in use (e.g. chat tab closed)
+    const removed = () => state.connections[chatId] !== connection;
+
     try {
       const ws = new WebSocket(url);
 
+      let opened = false;
+
       ws.onopen = (e) => {
-        commit('open', ws);
+        if (removed()) {
+          ws.close(...MANUAL_DISCONNECT);
+
+          return;
+        }
+
+        opened = true;
+
+        commit('open', {
+          chatId,
+          ws
+        });
+
+        // The heartbeat support is known from a previous connection to the agent
+        if (connection.heartbeatEnabled) {
+          dispatch('startHeartbeat', chatId);
+        }
+
         if (onopen) {
           onopen(e);
         }
       };
 
-      ws.onmessage = onmessage || null;
+      ws.onmessage = (e) => {
+        if (removed()) {
+          return;
+        }
+
+        commit('alive', chatId);
+
+        if (e.data === AIAgentAPIEvent.Pong) {
+          return;
+        }
+
+        if (onmessage) {
+          onmessage(e);
+        }
+      };
       ws.onclose = (e) => {
-        if (!isManualDisconnect(e)) {
-          state.phase = ConnectionPhase.ConnectionClosed;
+        if (removed()) {
+          return;
+        }
+
+        const manual = isManualDisconnect(e);
+
+        commit('stopHeartbeat', chatId);
+
+        if (!manual) {
+          connection.phase = ConnectionPhase.ConnectionClosed;
         }
 
         if (onclose) {
           onclose(e);
         }
 
-        state.ws = null;
+        connection.ws = null;
+
+        // Reconnect only connections that were established, or that are already being retried
+        if (!manual && (opened || connection.reconnectAttempts > 0)) {
+          dispatch('reconnect', params);
+        } else {
+          dispatch('failQueue', chatId);
+        }
       };
       ws.onerror = (e) => {
         error('WebSocket error: ', e);
 
+        // Failures while reconnecting are expected, the connection is retried or closed by onclose
+        if (removed() || connection.reconnectAttempts > 0) {
+          return;
+        }
+
         commit('setError', {
-          key:         'ai.error.websocket.generic',
-          sourceLinks: [{
-            key:   'ai.error.services.docsLinkLabel',
-            value: PERMISSIONS_DOCS_URL
-          }]
+          chatId,
+          error: {
+            key:         'ai.error.websocket.generic',
+            sourceLinks: [{
+              key:   'ai.error.services.docsLinkLabel',
+              value: PERMISSIONS_DOCS_URL
+            }]
+          }
         });
       };
 
-      commit('setError', null);
+      commit('setError', {
+        chatId,
+        error: null
+      });
     } catch (e) {
       error('WebSocket connection error: ', e);
 
-      commit('setError', { key: 'ai.error.websocket.connection' } );
+      commit('setError', {
+        chatId,
+        error: { key: 'ai.error.websocket.connection' }
+      });
+
+      dispatch('failQueue', chatId);
     }
   },
+
+  reconnect({ commit, dispatch, state }: ActionContext, params: ConnectionParams) {
+    const { chatId } = params;
+    const connection = state.connections[chatId];
+
+    // The connection was removed (e.g. chat tab closed)
+    if (!connection) {
+      return;
+    }
+
+    if (connection.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      commit('cancelReconnect', {
+        chatId,
+        reset: true
+      });
+      commit('setPhase', {
+        chatId,
+        phase: ConnectionPhase.ConnectionClosed
+      });
+
+      dispatch('failQueue', chatId);
+
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      commit('cancelReconnect', { chatId });
+
+      dispatch('open', {
+        ...params,
+        url: params.reconnectUrl ? params.reconnectUrl() : params.url,
+      });
+    }, reconnectDelay(connection.reconnectAttempts));
+
+    commit('scheduleReconnect', {
+      chatId,
+      timer
+    });
+  },
+
+  startHeartbeat({ commit, dispatch, state }: ActionContext, chatId: string) {
+    if (!state.connections[chatId]) {
+      return;
+    }
+
+    const timer = setInterval(() => dispatch('heartbeat', chatId), state.heartbeat.interval);
+
+    commit('startHeartbeat', {
+      chatId,
+      timer
+    });
+  },
+
+  heartbeat({ commit, state }: ActionContext, chatId: string) {
+    const connection = state.connections[chatId];
+    const ws = connection?.ws;
+
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (connection.missedPongs >= state.heartbeat.closeAfterMissed) {
+      commit('stopHeartbeat', chatId);
+
+      // Not a manual disconnection: the connection is reconnected
+      ws.close(...HEARTBEAT_TIMEOUT_DISCONNECT);
+
+      return;
+    }
+
+    if (connection.missedPongs >= state.heartbeat.maxMissed && [ConnectionPhase.Idle, ConnectionPhase.Connected].includes(connection.phase)) {
+      commit('degrade', chatId);
+    }
+
+    ws.send(AIAgentAPIEvent.Ping);
+
+    commit('missedPong', chatId);
+  },
+
+  failQueue({ commit, state }: ActionContext, chatId: string) {
+    state.queue.filter((msg) => msg.chatId === chatId).forEach(({ messageId }) => {
+      commit(`${ PRODUCT_NAME }/chat/updateMessage`, {
+        chatId,
+        message: {
+          id:             messageId,
+          deliveryStatus: MessageDeliveryStatus.Failed
+        }
+      }, { root: true });
+    });
+
+    commit('clearQueue', chatId);
+  },
 };
 
 const factory = (): CoreStoreSpecifics => {
   return {
     state: (): State => {
       return {
-        ws:    null,
-        phase: ConnectionPhase.Idle,
-        error: null
+        connections: {},
+        queue:       readQueue(),
+        heartbeat:   { ...HEARTBEAT_DEFAULTS },
       };
     },
     getters:   { ...getters },
@@ -41,6 +41,40 @@ export const enum Tag {
   ProcessingSubagentCompleteEnd = '</processing-subagent-end>',
 }
 
+/**
+ * Frame types of the JSON protocol.
+ * Both the Tag parser and the JSON frame parser produce frames of these types.
+ */
+export const enum FrameType {
+  ChatMetadata = 'chat-metadata',
+  AgentMetadata = 'agent-metadata',
+  MessageStart = 'message-start',
+  MessageEnd = 'message-end',
+  ThinkingStart = 'think-start',
+  ThinkingEnd = 'think-end',
+  Text = 'text',
+  Tools = 'ui-tools',
+  McpResult = 'mcp-response',
+  Confirmation = 'confirmation-response',
+  DocLink = 'mcp-doclink',
+  AuthenticationRequest = 'authentication',
+  TokenRefreshRequest = 'token-refresh',
+  ChatError = 'chat-error',
+  AuthenticationError = 'auth-error',
+  Error = 'error',
+  ProcessingTools = 'processing-ui-tools',
+  ProcessingSubagentStart = 'processing-subagent-start',
+  ProcessingSubagentEnd = 'processing-subagent-end',
+}
+
+/**
+ * Protocols used by the agent to stream the messages.
+ */
+export const enum WSProtocol {
+  Tag = 'tag',
+  Json = 'json',
+}
+
 /**
  * Types used in Rancher AI Chat UI.
  */
@@ -64,14 +98,55 @@ export interface MessageError extends ChatError {
   code?: number;
 }
 
+export interface HeartbeatConfig {
+  interval: number; // ms between two pings
+  maxMissed: number; // missed pongs before the connection is considered degraded
+  closeAfterMissed: number; // missed pongs before the connection is dropped and reconnected
+}
+
+/**
+ * A unit of data received from the agent.
+ * `payload` is the raw data (Tag protocol) or the serialized frame payload (JSON protocol),
+ * in both cases it can be handed to the `format*` helpers.
+ */
+export interface Frame {
+  type: FrameType;
+  payload: string;
+  seq?: number;
+  protocol: WSProtocol;
+}
+
+export interface WSProtocolMetadata {
+  name: WSProtocol;
+  version: number;
+}
+
 export interface ConnectionParams {
+  chatId: string;
   url: string;
+  reconnectUrl?: () => string;
+  heartbeat?: Partial<HeartbeatConfig>;
   onopen?: (ev: Event) => any;
   onmessage?: (ev: MessageEvent) => any;
   onclose?: (ev: CloseEvent) => any;
   onerror?: (ev: Event) => any;
 }
 
+export const enum OutboundMessageKind {
+  Prompt = 'prompt',
+  Confirmation = 'confirmation',
+}
+
+export interface OutboundMessage {
+  chatId: string;
+  historyChatId?: string; // chat id of the agent, the queue is saved for it
+  messageId: number | string;
+  kind: OutboundMessageKind;
+  payload: string;
+  message?: Partial<Message>; // prompt to show again in the chat, when the queue is restored after a page reload
+  restored?: boolean; // read from the session storage
+}
+
 export const enum PanelState {
   Idle = 'idle',
   Loading = 'loading',
@@ -86,8 +161,9 @@ export const enum Role {
 }
 
 export const enum ContextTag {
-  CLUSTER   = 'cluster',
-  NAMESPACE = 'namespace',
+  CLUSTER       = 'cluster',
+  NAMESPACE     = 'namespace',
+  IMPORTED_CHAT = 'imported-chat',
 }
 
 export const enum HookContextTag {
@@ -118,6 +194,7 @@ export const enum ConnectionPhase {
   Connecting = 'connecting',
   Reconnecting = 'reconnecting',
   Connected = 'connected',
+  Degraded = 'degraded',
   Disconnected = 'disconnected',
   ConnectionClosed = 'connectionClosed',
 }
@@ -173,10 +250,17 @@ export const enum ConfirmationResponse {
   No = 'no',
 }
 
+export const enum MessageDeliveryStatus {
+  Pending = 'pending',
+  Failed = 'failed',
+}
+
 export const enum MessageTag {
   Ephemeral = 'ephemeral',
   Welcome = 'welcome',
   Confirmation = 'confirmation',
+  Regenerate = 'regenerate',
+  Bookmark = 'bookmark',
 }
 
 export interface MessageAction {
@@ -219,6 +303,11 @@ export interface MessageTemplate {
 
 export const enum MessageLabelKey {
   Summary = 'summary',
+  BookmarkNote = 'bookmark-note',
+}
+
+export interface MessageBookmark {
+  note?: string;
 }
 
 export const enum MessageInternalSource {
@@ -240,6 +329,12 @@ export interface Message {
   templateContent?: MessageTemplate;
   thinking?: boolean;
   completed?: boolean;
+  interrupted?: boolean;
+  stopped?: boolean; // the generation was stopped by the user
+  parentId?: number | null; // message this one replies to, messages sharing a parent are alternate versions
+  historyId?: string; // id of the message in the agent history
+  historyParentId?: string | null; // history id of the parent, if the agent supports branches
+  deliveryStatus?: MessageDeliveryStatus;
   showThinking?: boolean;
   showCompleteMessage?: boolean;
   tools?: ToolCall[];
@@ -249,6 +344,9 @@ export interface Message {
   sourceLinks?: SourceLinkItem[];
   timestamp?: Date;
   source?: MessageInternalSource;
+  bookmark?: MessageBookmark | null; // bookmarked by the user, persisted in the history tags and labels
+  tags?: string[]; // tags of the message in the agent history
+  labels?: Record<string, string>; // labels of the message in the agent history
 }
 
 export interface FormattedMessage extends Message {
@@ -256,10 +354,17 @@ export interface FormattedMessage extends Message {
   formattedMessageContent?: string;
 }
 
+export interface MessageVersions {
+  index: number; // version of the message shown in the conversation
+  messageIds: number[]; // all the versions of the message
+}
+
 export interface ChatMetadata {
   chatId: string;
   agents: ChatAgentStatus[];
   storageType: StorageType;
+  heartbeat?: boolean; // the agent replies to heartbeat pings
+  protocol?: WSProtocolMetadata; // the agent streams the messages using this protocol, Tag if not defined
 }
 
 export interface ChatAgentStatus {
@@ -283,6 +388,8 @@ export const enum StorageType {
 export const enum AIAgentAPIEvent {
   Error = '__error__',
   Abort = '__abort__',
+  Ping = '__ping__',
+  Pong = '__pong__',
 }
 
 export interface McpAuthenticationRequest {
@@ -354,6 +461,24 @@ export interface ToolCall {
   input: Record<string, any>;
 }
 
+export const enum ToolCallErrorReason {
+  InvalidInput = 'invalidInput',
+  Required = 'required',
+  Type = 'type',
+  Enum = 'enum',
+  MaxLength = 'maxLength',
+  MinLength = 'minLength',
+}
+
+/**
+ * Reason why a tool call doesn't match the schema of its tool.
+ */
+export interface ToolCallError {
+  reason: ToolCallErrorReason;
+  field?: string;
+  expected?: string; // e.g. the expected type, the allowed values or the length limit
+}
+
 export interface ToolsConfig {
   name: string;
   tools?: string[];
@@ -382,6 +507,7 @@ export interface UITool {
   metadata: Record<string, any>;
   schema: {
     properties: Record<string, any>;
+    required?: string[];
   }
   defaultValues?: Record<string, any>;
 }
@@ -409,25 +535,140 @@ export interface ToolsDefinitionActionResult {
   message?: string;
 }
 
+export interface ChatTab {
+  id: string;
+  label: string;
+  active: boolean;
+  streaming: boolean; // the chat is processing a message, possibly in background
+}
+
 export interface HistoryChat {
   id: string;
   name?: string;
   createdAt: Date;
+  pinned?: boolean;
+  starred?: boolean;
+  folder?: string | null;
+}
+
+/**
+ * History ids of a reply, sent by the agent at the end of the message or in its metadata.
+ */
+export interface MessageHistoryIds {
+  messageId: string; // id of the reply in the agent history
+  parentId?: string; // id of the prompt it replies to
 }
 
 export interface HistoryChatMessage {
+  id?: string;
+  parentId?: string | null; // set by agents supporting branches
   chatId: string;
   role: string | Role;
   agent: string | null;
   message: string;
-  context?: string;
-  labels?: Record<MessageLabelKey, string>;
+  context?: Record<string, any> | string;
+  labels?: Partial<Record<MessageLabelKey, string>>;
   tags?: string[];
   confirmation?: boolean;
   tools?: ToolCall[];
   createdAt: string;
 }
 
+/**
+ * Message of a chat matching a history search.
+ * Matches of the chat name have no message.
+ */
+export interface HistorySearchMatch {
+  messageId?: string; // history id of the message
+  messageIndex?: number; // position of the message in the chat, for agents not returning message ids
+  snippet: string;
+}
+
+/**
+ * Message of a chat to scroll to, e.g. a search match.
+ */
+export interface MessageFocus {
+  chatId: string; // agent chat id
+  messageId?: string;
+  messageIndex?: number;
+}
+
+export interface HistorySearchResult {
+  chat: HistoryChat;
+  matches: HistorySearchMatch[];
+}
+
+export const enum FindMatchField {
+  Message = 'message',
+  Thinking = 'thinking',
+  Tools = 'tools',
+}
+
+/**
+ * Occurrence of the query of the in-chat find.
+ */
+export interface FindMatch {
+  messageId: number;
+  field: FindMatchField;
+  occurrence: number; // position of the occurrence in the field of the message
+}
+
+export const enum HistoryChatGroupType {
+  Pinned = 'pinned',
+  Folder = 'folder',
+  Previous = 'previous',
+}
+
+export const enum HistoryDateBucket {
+  Today = 'today',
+  LastWeek = 'last-week',
+  LastMonth = 'last-month',
+  Older = 'older',
+}
+
+export interface HistoryChatGroup {
+  type: HistoryChatGroupType;
+  folder?: string;
+  bucket?: HistoryDateBucket; // date of the chats which are not pinned or in a folder
+  chats: HistoryChat[];
+}
+
+export interface HistoryChatDeleteResult {
+  chat: HistoryChat;
+  error?: string; // the chat was not deleted
+}
+
+export interface HistoryChatPage {
+  chats: HistoryChat[];
+  nextCursor: string | null; // null if there are no more chats to load
+  total?: number; // total number of chats, if returned by the agent
+}
+
+export const enum ChatExportFormat {
+  Markdown = 'markdown',
+  Json = 'json',
+  Html = 'html',
+}
+
+/**
+ * Chat exported to JSON, the messages have the format of the history API so that they can be imported.
+ */
+export interface ChatExport {
+  kind: string;
+  version: number;
+  chat: {
+    id: string;
+    name?: string;
+  };
+  exportedAt: string;
+  messages: HistoryChatMessage[];
+}
+
+export const enum ChatImportMode {
+  ReadOnly = 'read-only',
+  NewChat = 'new-chat',
+}
+
 export interface AgentSettings {
   storageType: StorageType;
 }
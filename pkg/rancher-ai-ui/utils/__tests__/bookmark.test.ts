@@ -0,0 +1,185 @@
+import { describe, it, expect } from '@jest/globals';
+import { Message, MessageLabelKey, MessageTag, Role } from '../../types';
+import {
+  BOOKMARK_NOTE_MAX_LENGTH, bookmarkedMessages, bookmarkFromHistoryMessage, bookmarkLabelsAndTags, findHistoryMessage
+} from '../bookmark';
+
+describe('bookmarkFromHistoryMessage', () => {
+  it('should return null if the message has no bookmark tag', () => {
+    expect(bookmarkFromHistoryMessage({ tags: ['other'] })).toBeNull();
+    expect(bookmarkFromHistoryMessage({})).toBeNull();
+  });
+
+  it('should return the bookmark with its note', () => {
+    expect(bookmarkFromHistoryMessage({ tags: [MessageTag.Bookmark] })).toStrictEqual({});
+    expect(bookmarkFromHistoryMessage({
+      tags:   [MessageTag.Bookmark],
+      labels: { [MessageLabelKey.BookmarkNote]: 'Root cause' }
+    })).toStrictEqual({ note: 'Root cause' });
+  });
+});
+
+describe('bookmarkLabelsAndTags', () => {
+  const message: Message = {
+    role:           Role.Assistant,
+    summaryContent: 'Summary',
+    tags:           ['other', MessageTag.Bookmark],
+    labels:         {
+      [MessageLabelKey.Summary]:      'Summary',
+      [MessageLabelKey.BookmarkNote]: 'Old note',
+      owner:                          'ops'
+    },
+  };
+
+  it('should add the bookmark tag and note, preserving the other labels and tags', () => {
+    expect(bookmarkLabelsAndTags(message, { note: ' Fix that worked ' })).toStrictEqual({
+      labels: {
+        [MessageLabelKey.Summary]:      'Summary',
+        [MessageLabelKey.BookmarkNote]: 'Fix that worked',
+        owner:                          'ops'
+      },
+      tags: ['other', MessageTag.Bookmark]
+    });
+  });
+
+  it('should remove the bookmark tag and note', () => {
+    expect(bookmarkLabelsAndTags(message, null)).toStrictEqual({
+      labels: {
+        [MessageLabelKey.Summary]: 'Summary',
+        owner:                     'ops'
+      },
+      tags: ['other']
+    });
+    expect(bookmarkLabelsAndTags(message, {}).labels).toStrictEqual({
+      [MessageLabelKey.Summary]: 'Summary',
+      owner:                     'ops'
+    });
+  });
+
+  it('should truncate long notes', () => {
+    const { labels } = bookmarkLabelsAndTags({ role: Role.Assistant }, { note: 'a'.repeat(BOOKMARK_NOTE_MAX_LENGTH + 10) });
+
+    expect(labels[MessageLabelKey.BookmarkNote]).toHaveLength(BOOKMARK_NOTE_MAX_LENGTH);
+  });
+});
+
+describe('bookmarkedMessages', () => {
+  it('should return the bookmarked messages in order', () => {
+    const messages: Message[] = [
+      {
+        id:       1,
+        role:     Role.Assistant,
+        bookmark: { note: 'First' }
+      },
+      {
+        id:   2,
+        role: Role.Assistant
+      },
+      {
+        id:       3,
+        role:     Role.Assistant,
+        bookmark: {}
+      },
+    ];
+
+    expect(bookmarkedMessages(messages).map((m) => m.id)).toStrictEqual([1, 3]);
+  });
+});
+
+describe('findHistoryMessage', () => {
+  const history: Message[] = [
+    {
+      role:            Role.User,
+      messageContent:  'Restart the pod',
+      historyId:       'msg-1',
+      historyParentId: null
+    },
+    {
+      role:            Role.Assistant,
+      messageContent:  'Do you confirm?',
+      historyId:       'msg-2',
+      historyParentId: 'msg-1'
+    },
+    {
+      role:            Role.User,
+      messageContent:  'yes',
+      historyId:       'msg-3',
+      historyParentId: 'msg-2'
+    },
+    {
+      role:            Role.Assistant,
+      messageContent:  'Restarted. Scale it too?',
+      historyId:       'msg-4',
+      historyParentId: 'msg-3'
+    },
+    {
+      role:            Role.User,
+      messageContent:  'yes',
+      historyId:       'msg-5',
+      historyParentId: 'msg-4'
+    },
+    {
+      role:            Role.User,
+      messageContent:  'yes',
+      historyId:       'msg-6',
+      historyParentId: 'msg-2'
+    },
+  ];
+
+  const path: Message[] = [
+    {
+      role:           Role.User,
+      messageContent: 'Restart the pod'
+    },
+    {
+      role:           Role.Assistant,
+      messageContent: 'Do you confirm?'
+    },
+    {
+      role:           Role.User,
+      messageContent: 'yes'
+    },
+  ];
+
+  it('should return the history message at the same position, the latest version first', () => {
+    expect(findHistoryMessage(path, history)?.historyId).toBe('msg-6');
+    expect(findHistoryMessage([
+      ...path.slice(0, 2),
+      {
+        ...path[2],
+        historyId: 'msg-3'
+      },
+      {
+        role:           Role.Assistant,
+        messageContent: 'Restarted. Scale it too?\n'
+      },
+      {
+        role:           Role.User,
+        messageContent: 'yes'
+      },
+    ], history)?.historyId).toBe('msg-5');
+  });
+
+  it('should follow the order of the messages of the agents without branches', () => {
+    const linear = history.slice(0, 5).map((msg) => ({
+      ...msg,
+      historyParentId: undefined
+    }));
+
+    expect(findHistoryMessage([
+      ...path,
+      {
+        role:           Role.Assistant,
+        messageContent: 'Restarted. Scale it too?'
+      },
+    ], linear)?.historyId).toBe('msg-4');
+  });
+
+  it('should return null if no history message matches', () => {
+    expect(findHistoryMessage([{
+      role:           Role.User,
+      messageContent: 'Scale the deployment'
+    }], history)).toBeNull();
+    expect(findHistoryMessage([path[0], { role: Role.Assistant }], history)).toBeNull();
+  });
+});
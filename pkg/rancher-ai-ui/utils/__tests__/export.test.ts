@@ -0,0 +1,252 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ChatExportFormat, ConfirmationActionType, ConfirmationStatus, Message, MessageInternalSource, Role
+} from '../../types';
+import { ToolName } from '../../components/tools/types';
+import {
+  CHAT_EXPORT_KIND, CHAT_EXPORT_VERSION, diffLines, exportChat, exportChatToJson, exportChatToMarkdown, latestConversation, parseChatExport
+} from '../export';
+
+const timestamp = new Date('2026-01-01T10:00:00Z');
+
+const messages: Message[] = [
+  {
+    id:              1,
+    role:            Role.Assistant,
+    source:          MessageInternalSource.Welcome,
+    templateContent: {
+      component: 'welcome' as any,
+      content:   { message: 'Welcome' }
+    },
+    timestamp,
+  },
+  {
+    id:             2,
+    role:           Role.User,
+    messageContent: 'Show the pod',
+    parentId:       null,
+    timestamp,
+  },
+  {
+    id:              3,
+    role:            Role.Assistant,
+    thinkingContent: 'Looking for the pod',
+    messageContent:  'Here it is',
+    parentId:        2,
+    tools:           [{
+      toolName: ToolName.ShowYaml,
+      input:    {
+        resourceKind: 'Pod',
+        resourceName: 'p1',
+        yaml:         'kind: Pod'
+      }
+    }],
+    timestamp,
+  },
+  {
+    id:           4,
+    role:         Role.Assistant,
+    parentId:     2,
+    confirmation: {
+      status:  ConfirmationStatus.Pending,
+      actions: [{
+        type:     ConfirmationActionType.Delete,
+        resource: {
+          kind:      'Pod',
+          namespace: 'default',
+          name:      'p1',
+          cluster:   'local'
+        }
+      }]
+    } as any,
+    timestamp,
+  },
+];
+
+describe('exportChatToJson', () => {
+  it('should export every message with its parent', () => {
+    const out = exportChatToJson({
+      chatId: 'chat-1',
+      name:   'My chat',
+      messages
+    });
+
+    expect(out.kind).toBe(CHAT_EXPORT_KIND);
+    expect(out.version).toBe(CHAT_EXPORT_VERSION);
+    expect(out.chat).toStrictEqual({
+      id:   'chat-1',
+      name: 'My chat'
+    });
+    expect(out.messages.map((m) => [m.id, m.parentId, m.role])).toStrictEqual([
+      ['2', null, Role.User],
+      ['3', '2', 'agent'],
+      ['4', '2', 'agent'],
+    ]);
+  });
+
+  it('should wrap the thinking and the confirmations in their tags', () => {
+    const [, reply, confirmation] = exportChatToJson({
+      chatId: 'chat-1',
+      messages
+    }).messages;
+
+    expect(reply.message).toBe('<think>Looking for the pod</think>\nHere it is');
+    expect(confirmation.message).toContain('<confirmation-response>');
+    expect(confirmation.confirmation).toBe(false);
+  });
+
+  it('should keep the ids of the messages loaded from the history', () => {
+    const out = exportChatToJson({
+      chatId:   'chat-1',
+      messages: [
+        {
+          role:           Role.User,
+          messageContent: 'Hello',
+          historyId:      'a',
+          timestamp
+        },
+        {
+          role:            Role.Assistant,
+          messageContent:  'Hi',
+          historyId:       'b',
+          historyParentId: 'a',
+          timestamp
+        },
+      ]
+    });
+
+    expect(out.messages.map((m) => [m.id, m.parentId])).toStrictEqual([
+      ['a', null],
+      ['b', 'a'],
+    ]);
+  });
+});
+
+describe('parseChatExport', () => {
+  const content = JSON.stringify(exportChatToJson({
+    chatId: 'chat-1',
+    name:   'My chat',
+    messages
+  }));
+
+  it('should parse a JSON export', () => {
+    const out = parseChatExport(content);
+
+    expect(out?.chat).toStrictEqual({
+      id:   'chat-1',
+      name: 'My chat'
+    });
+    expect(out?.messages).toHaveLength(3);
+  });
+
+  it('should reject files which are not chat exports', () => {
+    expect(parseChatExport('not json')).toBeNull();
+    expect(parseChatExport('{"kind":"other"}')).toBeNull();
+    expect(parseChatExport(JSON.stringify({
+      ...JSON.parse(content),
+      version: CHAT_EXPORT_VERSION + 1
+    }))).toBeNull();
+  });
+
+  it('should reject invalid messages', () => {
+    const data = JSON.parse(content);
+
+    expect(parseChatExport(JSON.stringify({
+      ...data,
+      messages: [{
+        ...data.messages[0],
+        role: 'admin'
+      }]
+    }))).toBeNull();
+
+    expect(parseChatExport(JSON.stringify({
+      ...data,
+      messages: [{
+        ...data.messages[1],
+        parentId: 'unknown'
+      }]
+    }))).toBeNull();
+  });
+});
+
+describe('latestConversation', () => {
+  it('should follow the last reply to each message', () => {
+    const history: Message[] = [
+      ['a', null],
+      ['b', 'a'],
+      ['c', 'a'],
+      ['d', 'c'],
+      ['e', 'b'],
+    ].map(([historyId, historyParentId]) => ({
+      role:           Role.User,
+      messageContent: `${ historyId }`,
+      historyId:      `${ historyId }`,
+      historyParentId,
+      timestamp
+    }));
+
+    expect(latestConversation(history).map((m) => m.historyId)).toStrictEqual(['a', 'c', 'd']);
+    expect(latestConversation([])).toStrictEqual([]);
+  });
+});
+
+describe('exportChatToMarkdown', () => {
+  const markdown = exportChatToMarkdown({
+    chatId:   'chat-1',
+    name:     'My chat',
+    userName: 'admin',
+    messages
+  });
+
+  it('should skip the messages which are not part of the conversation', () => {
+    expect(markdown.startsWith('# My chat')).toBe(true);
+    expect(markdown).not.toContain('Welcome');
+  });
+
+  it('should render the authors, the thinking and the content', () => {
+    expect(markdown).toContain('### admin');
+    expect(markdown).toContain('### Liz');
+    expect(markdown).toContain('> Looking for the pod');
+    expect(markdown).toContain('Here it is');
+  });
+
+  it('should fence the YAML and render the confirmations as tables', () => {
+    expect(markdown).toContain('```yaml\nkind: Pod\n```');
+    expect(markdown).toContain('| delete | Pod | default | p1 | local |');
+  });
+});
+
+describe('diffLines', () => {
+  it('should prefix the removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toStrictEqual([
+      '  a',
+      '- b',
+      '+ B',
+      '  c',
+    ]);
+  });
+});
+
+describe('exportChat', () => {
+  it('should name the file after the chat and the format', () => {
+    const file = exportChat(ChatExportFormat.Json, {
+      chatId: 'chat-1',
+      messages
+    });
+
+    expect(file.fileName).toMatch(/^Rancher-liz-chat-chat-1_\d{4}-\d{2}-\d{2}\.json$/);
+    expect(file.mimeType).toBe('application/json');
+    expect(JSON.parse(file.content).messages).toHaveLength(3);
+  });
+
+  it('should render the HTML export from the Markdown export', () => {
+    const file = exportChat(ChatExportFormat.Html, {
+      chatId:   'chat-1',
+      name:     '<b>chat</b>',
+      messages: [messages[1]]
+    });
+
+    expect(file.content).toContain('<title>&lt;b&gt;chat&lt;/b&gt;</title>');
+    expect(file.content).toContain('<p>Show the pod</p>');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { FindMatchField, FormattedMessage, Role } from '../../types';
+import { ToolName } from '../../components/tools/types';
+import { countHtmlMatches, findInMessages, highlightHtmlMatches, toolsText } from '../find';
+
+const messages: FormattedMessage[] = [
+  {
+    id:                      1,
+    role:                    Role.User,
+    messageContent:          'List the pods',
+    formattedMessageContent: 'List the pods',
+  },
+  {
+    id:                       2,
+    role:                     Role.Assistant,
+    thinkingContent:          'Looking for pods',
+    formattedThinkingContent: '<p>Looking for pods</p>',
+    messageContent:           'Pod **p1** and pod <p2>',
+    formattedMessageContent:  '<p>Pod <strong>p1</strong> and pod &lt;p2&gt;</p>',
+    tools:                    [{
+      toolName: ToolName.ShowYaml,
+      input:    {
+        resourceKind: 'Pod',
+        resourceName: 'p1',
+        yaml:         'kind: Pod\nmetadata:\n  name: p1'
+      }
+    }],
+  },
+];
+
+describe('countHtmlMatches', () => {
+  it('should count the matches in the text, not in the tags', () => {
+    expect(countHtmlMatches('<p class="pod">Pod <b>pod</b></p>', 'pod')).toBe(2);
+    expect(countHtmlMatches('<p>a &lt;b&gt;</p>', '<b>')).toBe(1);
+    expect(countHtmlMatches('<p>pod</p>', ' ')).toBe(0);
+  });
+});
+
+describe('highlightHtmlMatches', () => {
+  it('should mark the matches and the active one', () => {
+    expect(highlightHtmlMatches('<p>Pod <b>pod</b></p>', 'pod', 1)).toBe(
+      '<p><mark class="chat-find-match">Pod</mark> <b><mark class="chat-find-match chat-find-match-active">pod</mark></b></p>'
+    );
+  });
+
+  it('should match the decoded text and never split the entities', () => {
+    expect(highlightHtmlMatches('<p>a &amp; b &lt;c&gt;</p>', 'amp')).toBe('<p>a &amp; b &lt;c&gt;</p>');
+    expect(highlightHtmlMatches('<p>a &amp; b &lt;c&gt;</p>', 'lt')).toBe('<p>a &amp; b &lt;c&gt;</p>');
+    expect(highlightHtmlMatches('<p>a &amp; b &lt;c&gt;</p>', '& b <c>')).toBe('<p>a <mark class="chat-find-match">&amp; b &lt;c&gt;</mark></p>');
+    expect(highlightHtmlMatches('<code>it&#39;s</code>', "t's")).toBe('<code>i<mark class="chat-find-match">t&#39;s</mark></code>');
+    expect(countHtmlMatches('<p>&quot;lt&quot; &lt;</p>', 'lt')).toBe(1);
+  });
+
+  it('should escape the query used in the pattern', () => {
+    expect(highlightHtmlMatches('a.b axb', 'a.b')).toBe('<mark class="chat-find-match">a.b</mark> axb');
+  });
+});
+
+describe('toolsText', () => {
+  it('should return the values of the tool inputs', () => {
+    expect(toolsText(messages[1].tools)).toBe('Pod\np1\nkind: Pod\nmetadata:\n  name: p1');
+    expect(toolsText()).toBe('');
+  });
+});
+
+describe('findInMessages', () => {
+  it('should find the matches in the content, the thinking and the tools of each message', () => {
+    expect(findInMessages(messages, 'pod').map((m) => [m.messageId, m.field, m.occurrence])).toStrictEqual([
+      [1, FindMatchField.Message, 0],
+      [2, FindMatchField.Message, 0],
+      [2, FindMatchField.Message, 1],
+      [2, FindMatchField.Thinking, 0],
+      [2, FindMatchField.Tools, 0],
+      [2, FindMatchField.Tools, 1],
+    ]);
+  });
+
+  it('should not return anything for empty queries', () => {
+    expect(findInMessages(messages, '  ')).toStrictEqual([]);
+  });
+});
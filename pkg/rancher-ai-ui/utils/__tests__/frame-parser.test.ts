@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { FrameType, WSProtocol } from '../../types';
+import { FRAME_PROTOCOL_VERSION, isFrameProtocol, parseFrame, parseWSData } from '../frame-parser';
+import { TagTokenizer } from '../tag-parser';
+
+const JSON_PROTOCOL = {
+  name:    WSProtocol.Json,
+  version: FRAME_PROTOCOL_VERSION
+};
+
+describe('isFrameProtocol', () => {
+  it('should accept supported JSON protocol versions', () => {
+    expect(isFrameProtocol(JSON_PROTOCOL)).toBe(true);
+  });
+
+  it('should reject other protocols and versions', () => {
+    expect(isFrameProtocol(undefined)).toBe(false);
+    expect(isFrameProtocol({
+      name:    WSProtocol.Tag,
+      version: 1
+    })).toBe(false);
+    expect(isFrameProtocol({
+      name:    WSProtocol.Json,
+      version: FRAME_PROTOCOL_VERSION + 1
+    })).toBe(false);
+  });
+});
+
+describe('parseFrame', () => {
+  it('should parse text frames', () => {
+    expect(parseFrame('{"type":"text","payload":"<think> is a tag","seq":3}')).toStrictEqual({
+      type:     FrameType.Text,
+      payload:  '<think> is a tag',
+      seq:      3,
+      protocol: WSProtocol.Json,
+    });
+  });
+
+  it('should serialize object payloads', () => {
+    const frame = parseFrame(JSON.stringify({
+      type:    FrameType.McpResult,
+      payload: {
+        kind: 'Pod',
+        name: 'p1'
+      }
+    }));
+
+    expect(frame?.type).toBe(FrameType.McpResult);
+    expect(JSON.parse(frame?.payload || '')).toStrictEqual({
+      kind: 'Pod',
+      name: 'p1'
+    });
+    expect(frame?.seq).toBeUndefined();
+  });
+
+  it('should wrap tools in their tags', () => {
+    const frame = parseFrame('{"type":"ui-tools","payload":[{"name":"tool"}]}');
+
+    expect(frame?.payload).toBe('<ui-tools>[{"name":"tool"}]</ui-tools>');
+  });
+
+  it('should default to an empty payload', () => {
+    expect(parseFrame('{"type":"message-start"}')?.payload).toBe('');
+  });
+
+  it('should return null for invalid frames', () => {
+    expect(parseFrame('<message>')).toBeNull();
+    expect(parseFrame('{"type":')).toBeNull();
+    expect(parseFrame('{"type":"unknown"}')).toBeNull();
+  });
+});
+
+describe('parseWSData', () => {
+  it('should use the Tag tokenizer when the JSON protocol is not negotiated', () => {
+    expect(parseWSData('{"type":"message-start"}')[0].type).toBe(FrameType.Text);
+    expect(parseWSData('<message>')[0].protocol).toBe(WSProtocol.Tag);
+  });
+
+  it('should use the JSON frame parser when the JSON protocol is negotiated', () => {
+    const [frame] = parseWSData('{"type":"message-start","seq":1}', JSON_PROTOCOL);
+
+    expect(frame.type).toBe(FrameType.MessageStart);
+    expect(frame.protocol).toBe(WSProtocol.Json);
+  });
+
+  it('should fall back to the Tag tokenizer for data which is not a frame', () => {
+    expect(parseWSData('<chat-metadata>{}</chat-metadata>', JSON_PROTOCOL)[0].type).toBe(FrameType.ChatMetadata);
+  });
+
+  it('should keep the state of the given Tag tokenizer', () => {
+    const tokenizer = new TagTokenizer();
+
+    expect(parseWSData('<mcp-resp', null, tokenizer)).toStrictEqual([]);
+    expect(parseWSData('onse>{}</mcp-response>', null, tokenizer)[0].type).toBe(FrameType.McpResult);
+  });
+});
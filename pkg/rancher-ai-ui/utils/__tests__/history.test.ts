@@ -0,0 +1,246 @@
+import { describe, it, expect } from '@jest/globals';
+import { HistoryChat, HistoryChatGroupType, HistoryDateBucket, Role } from '../../types';
+import {
+  chatFolders, chatsOlderThan, chatTitle, dateBucket, groupChats, groupKey, historyRows, isDefaultChatName, moveChatPayload, shortenTitle
+} from '../history';
+import { visibleRows } from '../virtual';
+
+const createdAt = new Date();
+
+const chats: HistoryChat[] = [
+  {
+    id:     'chat-1',
+    name:   'Upgrade',
+    folder: 'local',
+    createdAt
+  },
+  {
+    id:      'chat-2',
+    name:    'Incident',
+    folder:  'incidents',
+    pinned:  true,
+    starred: true,
+    createdAt
+  },
+  {
+    id:   'chat-3',
+    name: 'Pods',
+    createdAt
+  },
+  {
+    id:     'chat-4',
+    name:   'Outage',
+    folder: 'incidents',
+    createdAt
+  },
+];
+
+describe('chatFolders', () => {
+  it('should return the folder names sorted by name', () => {
+    expect(chatFolders(chats)).toStrictEqual(['incidents', 'local']);
+    expect(chatFolders([])).toStrictEqual([]);
+  });
+});
+
+describe('groupChats', () => {
+  it('should list the pinned chats, the folders and the remaining chats', () => {
+    const groups = groupChats(chats);
+
+    expect(groups.map((g) => [g.type, g.folder, g.chats.map((c) => c.id)])).toStrictEqual([
+      [HistoryChatGroupType.Pinned, undefined, ['chat-2']],
+      [HistoryChatGroupType.Folder, 'incidents', ['chat-4']],
+      [HistoryChatGroupType.Folder, 'local', ['chat-1']],
+      [HistoryChatGroupType.Previous, undefined, ['chat-3']],
+    ]);
+  });
+
+  it('should group the remaining chats by date', () => {
+    const now = new Date('2026-03-31T12:00:00');
+    const groups = groupChats([
+      {
+        id:        'old',
+        createdAt: new Date('2025-12-01T12:00:00')
+      },
+      {
+        id:        'today',
+        createdAt: new Date('2026-03-31T08:00:00')
+      },
+      {
+        id:        'week',
+        createdAt: new Date('2026-03-28T08:00:00')
+      },
+    ], now);
+
+    expect(groups.map((g) => [groupKey(g), g.chats.map((c) => c.id)])).toStrictEqual([
+      ['previous-today', ['today']],
+      ['previous-last-week', ['week']],
+      ['previous-older', ['old']],
+    ]);
+  });
+
+  it('should keep a single group for chats without metadata', () => {
+    const groups = groupChats([chats[2]]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].type).toBe(HistoryChatGroupType.Previous);
+  });
+});
+
+describe('dateBucket', () => {
+  const now = new Date('2026-03-31T12:00:00');
+
+  it('should compare the dates with the start of the day', () => {
+    expect(dateBucket(new Date('2026-03-31T00:00:00'), now)).toBe(HistoryDateBucket.Today);
+    expect(dateBucket(new Date('2026-03-30T23:59:00'), now)).toBe(HistoryDateBucket.LastWeek);
+    expect(dateBucket(new Date('2026-03-25T00:00:00'), now)).toBe(HistoryDateBucket.LastWeek);
+    expect(dateBucket(new Date('2026-03-24T23:59:00'), now)).toBe(HistoryDateBucket.LastMonth);
+    expect(dateBucket('2026-03-01T23:59:00', now)).toBe(HistoryDateBucket.Older);
+  });
+});
+
+describe('chatsOlderThan', () => {
+  it('should return the chats created before the number of days', () => {
+    const now = new Date('2026-03-31T12:00:00');
+    const old = [
+      {
+        id:        'a',
+        createdAt: new Date('2026-03-01T11:00:00')
+      },
+      {
+        id:        'b',
+        createdAt: new Date('2026-03-01T13:00:00')
+      },
+    ];
+
+    expect(chatsOlderThan(old, 30, now).map((c) => c.id)).toStrictEqual(['a']);
+    expect(chatsOlderThan(old, 60, now)).toStrictEqual([]);
+  });
+});
+
+describe('historyRows', () => {
+  const { rows, height } = historyRows(groupChats(chats), {
+    header: 40,
+    chat:   30
+  });
+
+  it('should lay out the headers and the chats', () => {
+    expect(height).toBe(4 * 40 + 4 * 30);
+    expect(rows.map((r) => [r.chat?.id, r.index, r.top])).toStrictEqual([
+      [undefined, undefined, 0],
+      ['chat-2', 0, 40],
+      [undefined, undefined, 70],
+      ['chat-4', 1, 110],
+      [undefined, undefined, 140],
+      ['chat-1', 2, 180],
+      [undefined, undefined, 210],
+      ['chat-3', 3, 250],
+    ]);
+  });
+
+  it('should return the rows in the viewport', () => {
+    expect(visibleRows(rows, 100, 50, 0).map((r) => r.top)).toStrictEqual([70, 110, 140]);
+    expect(visibleRows(rows, 100, 50, 1).map((r) => r.top)).toStrictEqual([40, 70, 110, 140, 180]);
+    expect(visibleRows(rows, 1000, 50)).toStrictEqual([]);
+  });
+});
+
+describe('moveChatPayload', () => {
+  it('should return the changes to move a chat to a group', () => {
+    expect(moveChatPayload(chats[2], { type: HistoryChatGroupType.Pinned })).toStrictEqual({ pinned: true });
+    expect(moveChatPayload(chats[1], {
+      type:   HistoryChatGroupType.Folder,
+      folder: 'local'
+    })).toStrictEqual({
+      folder: 'local',
+      pinned: false
+    });
+    expect(moveChatPayload(chats[0], { type: HistoryChatGroupType.Previous })).toStrictEqual({
+      folder: null,
+      pinned: false
+    });
+  });
+
+  it('should not change chats which are already in the group', () => {
+    expect(moveChatPayload(chats[1], { type: HistoryChatGroupType.Pinned })).toBeNull();
+    expect(moveChatPayload(chats[0], {
+      type:   HistoryChatGroupType.Folder,
+      folder: 'local'
+    })).toBeNull();
+    expect(moveChatPayload(chats[2], { type: HistoryChatGroupType.Previous })).toBeNull();
+  });
+});
+
+describe('shortenTitle', () => {
+  it('should cut long titles at a word boundary', () => {
+    expect(shortenTitle('Pods  in\nthe default namespace')).toBe('Pods in the default namespace');
+    expect(shortenTitle('Restart the failing pods in the default namespace', 30)).toBe('Restart the failing pods in…');
+  });
+});
+
+describe('chatTitle', () => {
+  const user = {
+    role:           Role.User,
+    messageContent: 'Please check the pods of the default namespace',
+  };
+
+  const reply = {
+    role:           Role.Assistant,
+    messageContent: 'All the pods are running. Nothing to do.',
+    completed:      true,
+  };
+
+  it('should wait for the first reply to complete', () => {
+    expect(chatTitle([user])).toBeNull();
+    expect(chatTitle([user, {
+      ...reply,
+      completed: false
+    }])).toBeNull();
+  });
+
+  it('should prefer the summary label of the user message', () => {
+    expect(chatTitle([{
+      ...user,
+      summaryContent: 'Please analyse the Pod "<strong>p1</strong>"'
+    }, reply])).toBe('Please analyse the Pod "p1"');
+  });
+
+  it('should use the summary of the agent', () => {
+    expect(chatTitle([user, reply], 'Default namespace health check')).toBe('Default namespace health check');
+    expect(chatTitle([user, {
+      ...reply,
+      summaryContent: 'Pods health check'
+    }])).toBe('Pods health check');
+  });
+
+  it('should fall back to the user prompt when there is no summary', () => {
+    expect(chatTitle([user, reply])).toBe('Please check the pods of the default namespace');
+    expect(chatTitle([{
+      ...user,
+      messageContent: 'Why is the <b>nginx</b> deployment of the default namespace not scaling up anymore?'
+    }, reply])).toBe('Why is the nginx deployment of the default namespace not…');
+  });
+});
+
+describe('isDefaultChatName', () => {
+  const messages = [
+    {
+      role:           Role.User,
+      messageContent: 'Why is the nginx deployment of the default namespace not scaling up anymore?\nIt has 3 replicas.',
+    },
+    {
+      role:           Role.Assistant,
+      messageContent: 'The quota of the namespace is reached.',
+      completed:      true,
+    }
+  ];
+
+  it('should accept the name given by the agent and the titles derived from the prompt', () => {
+    expect(isDefaultChatName(undefined, messages)).toBe(true);
+    expect(isDefaultChatName('Why is the nginx deployment of the default namespace not scaling up anymore?\nIt has 3 replicas.', messages)).toBe(true);
+    expect(isDefaultChatName('Why is the nginx deployment of the default namespace not…', messages)).toBe(true);
+  });
+
+  it('should reject the names given by the user', () => {
+    expect(isDefaultChatName('nginx quota', messages)).toBe(false);
+  });
+});
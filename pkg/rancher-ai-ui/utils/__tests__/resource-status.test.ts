@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  addResourceWatcher, eventType, isRollingOut, recentEvents, removeResourceWatcher, replicaCounts, resourceConditions, rolloutProgress
+} from '../resource-status';
+
+describe('resource-status', () => {
+  it('should return the replica counts of the workloads', () => {
+    expect(replicaCounts({
+      spec:   { replicas: 3 },
+      status: {
+        replicas:        3,
+        readyReplicas:   2,
+        updatedReplicas: 1
+      }
+    })).toStrictEqual({
+      desired:   3,
+      ready:     2,
+      updated:   1,
+      available: 0
+    });
+
+    expect(replicaCounts({
+      status: {
+        desiredNumberScheduled: 2,
+        numberReady:            2,
+        updatedNumberScheduled: 2,
+        numberAvailable:        2
+      }
+    })).toStrictEqual({
+      desired:   2,
+      ready:     2,
+      updated:   2,
+      available: 2
+    });
+
+    expect(replicaCounts({
+      kind:   'Pod',
+      status: { phase: 'Running' }
+    })).toBeNull();
+  });
+
+  it('should report the rollout progress', () => {
+    const counts = {
+      desired:   4,
+      ready:     3,
+      updated:   2,
+      available: 3
+    };
+
+    expect(isRollingOut(counts)).toBe(true);
+    expect(rolloutProgress(counts)).toBe(50);
+
+    expect(isRollingOut({
+      desired:   2,
+      ready:     2,
+      updated:   2,
+      available: 2
+    })).toBe(false);
+    expect(isRollingOut(null)).toBe(false);
+    expect(rolloutProgress({
+      desired:   0,
+      ready:     0,
+      updated:   0,
+      available: 0
+    })).toBe(100);
+  });
+
+  it('should return the conditions with their health', () => {
+    expect(resourceConditions({
+      status: {
+        conditions: [
+          {
+            type:   'Available',
+            status: 'True'
+          },
+          {
+            type:   'ReplicaFailure',
+            status: 'True',
+            reason: 'FailedCreate'
+          },
+          {
+            type:   'MemoryPressure',
+            status: 'False'
+          },
+          { status: 'True' },
+        ]
+      }
+    }).map((c) => [c.type, c.healthy])).toStrictEqual([
+      ['Available', true],
+      ['ReplicaFailure', false],
+      ['MemoryPressure', true],
+    ]);
+
+    expect(resourceConditions({})).toStrictEqual([]);
+  });
+
+  it('should return the latest events of the resource', () => {
+    const resource = {
+      kind:     'Deployment',
+      metadata: {
+        uid:       'abc',
+        name:      'web',
+        namespace: 'default'
+      }
+    };
+    const events = [
+      {
+        reason:         'ScalingReplicaSet',
+        lastTimestamp:  '2026-01-01T10:00:00Z',
+        involvedObject: { uid: 'abc' }
+      },
+      {
+        reason:         'Other',
+        lastTimestamp:  '2026-01-01T12:00:00Z',
+        involvedObject: { uid: 'def' }
+      },
+      {
+        reason:         'Killing',
+        eventTime:      '2026-01-01T11:00:00Z',
+        involvedObject: {
+          kind:      'Deployment',
+          name:      'web',
+          namespace: 'default'
+        }
+      },
+    ];
+
+    expect(recentEvents(events, resource).map((e) => e.reason)).toStrictEqual(['Killing', 'ScalingReplicaSet']);
+    expect(recentEvents(events, resource, 1).map((e) => e.reason)).toStrictEqual(['Killing']);
+  });
+
+  it('should return the Kubernetes type of the events', () => {
+    expect(eventType({
+      type:  'event',
+      _type: 'Warning'
+    })).toBe('Warning');
+    expect(eventType({ type: 'Normal' })).toBe('Normal');
+    expect(eventType({ type: 'event' })).toBe('');
+  });
+
+  it('should stop the watch of a resource when its last card is removed', () => {
+    addResourceWatcher('management/apps.deployment/default/nginx');
+    addResourceWatcher('management/apps.deployment/default/nginx');
+    addResourceWatcher('management/pod/default/nginx-1');
+
+    expect(removeResourceWatcher('management/apps.deployment/default/nginx')).toBe(false);
+    expect(removeResourceWatcher('management/pod/default/nginx-1')).toBe(true);
+    expect(removeResourceWatcher('management/apps.deployment/default/nginx')).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  cellValue, filterRows, rowKey, sortRows, tableColumns, tableRows
+} from '../resource-table';
+
+const rows = [
+  {
+    name:      'web-1',
+    namespace: 'default',
+    status:    'CrashLoopBackOff',
+    restarts:  12
+  },
+  {
+    name:      'web-10',
+    namespace: 'default',
+    status:    'Error',
+    restarts:  3
+  },
+  {
+    name:      'web-2',
+    namespace: 'prod',
+    status:    'CrashLoopBackOff',
+    restarts:  '7'
+  },
+];
+
+describe('resource-table', () => {
+  it('should normalize the columns and show the name column first', () => {
+    expect(tableColumns(['status', {
+      name:  'restarts',
+      label: 'Restarts'
+    }, 'status', { label: 'No name' }, ''])).toStrictEqual([
+      { name: 'name' },
+      { name: 'status' },
+      {
+        name:  'restarts',
+        label: 'Restarts'
+      },
+    ]);
+
+    expect(tableColumns([{ name: 'restarts' }, {
+      name:  'name',
+      label: 'Pod'
+    }])).toStrictEqual([
+      {
+        name:  'name',
+        label: 'Pod'
+      },
+      { name: 'restarts' },
+    ]);
+
+    expect(tableColumns(undefined)).toStrictEqual([{ name: 'name' }]);
+  });
+
+  it('should skip the rows without a name', () => {
+    expect(tableRows([...rows, { namespace: 'default' }, null, 'web-3'])).toStrictEqual(rows);
+    expect(tableRows('web-1')).toStrictEqual([]);
+  });
+
+  it('should format the cells and the row keys', () => {
+    expect(cellValue({
+      name:  'web-1',
+      ports: [80, 443]
+    }, { name: 'ports' })).toBe('80, 443');
+    expect(cellValue({
+      name:   'web-1',
+      labels: { app: 'web' }
+    }, { name: 'labels' })).toBe('{"app":"web"}');
+    expect(cellValue({
+      name:  'web-1',
+      ready: false
+    }, { name: 'ready' })).toBe('false');
+    expect(cellValue({ name: 'web-1' }, { name: 'ready' })).toBe('');
+
+    expect(rowKey(rows[0])).toBe('default/web-1');
+    expect(rowKey({ name: 'node-1' })).toBe('node-1');
+  });
+
+  it('should filter the rows by any cell or namespace', () => {
+    const columns = tableColumns(['status']);
+
+    expect(filterRows(rows, columns, 'crashloop').map(rowKey)).toStrictEqual(['default/web-1', 'prod/web-2']);
+    expect(filterRows(rows, columns, ' PROD ').map(rowKey)).toStrictEqual(['prod/web-2']);
+    expect(filterRows(rows, columns, '')).toBe(rows);
+  });
+
+  it('should sort the numbers as numbers and the text with numeric collation', () => {
+    expect(sortRows(rows, { name: 'restarts' }).map((r) => r.name)).toStrictEqual(['web-10', 'web-2', 'web-1']);
+    expect(sortRows(rows, { name: 'restarts' }, true).map((r) => r.name)).toStrictEqual(['web-1', 'web-2', 'web-10']);
+    expect(sortRows(rows, { name: 'name' }).map((r) => r.name)).toStrictEqual(['web-1', 'web-2', 'web-10']);
+    expect(sortRows(rows, null)).not.toBe(rows);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { HistoryChat, Message, Role } from '../../types';
+import {
+  buildSnippet, highlightTerms, matchesTerms, searchChats, searchTerms
+} from '../search';
+
+const chats: HistoryChat[] = [
+  {
+    id:        'chat-1',
+    name:      'Pods in default namespace',
+    createdAt: new Date()
+  },
+  {
+    id:        'chat-2',
+    name:      'Cluster upgrade',
+    createdAt: new Date()
+  },
+];
+
+const messages: Record<string, Message[]> = {
+  'chat-1': [
+    {
+      role:           Role.User,
+      messageContent: 'List the pods',
+      historyId:      'm1'
+    },
+    {
+      role:           Role.Assistant,
+      messageContent: 'There are 3 pods running in the default namespace',
+      historyId:      'm2'
+    },
+  ],
+  'chat-2': [
+    {
+      role:           Role.User,
+      messageContent: 'Upgrade the downstream cluster'
+    },
+  ],
+};
+
+describe('searchTerms', () => {
+  it('should split the query into lowercase terms', () => {
+    expect(searchTerms('  Default   POD ')).toStrictEqual(['default', 'pod']);
+    expect(searchTerms('')).toStrictEqual([]);
+  });
+});
+
+describe('matchesTerms', () => {
+  it('should match texts containing all the terms', () => {
+    expect(matchesTerms('Pods in default namespace', ['pod', 'default'])).toBe(true);
+    expect(matchesTerms('Pods in default namespace', ['pod', 'cluster'])).toBe(false);
+    expect(matchesTerms('Pods', [])).toBe(false);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should return the text around the first match', () => {
+    const text = `${ 'a'.repeat(100) } needle ${ 'b'.repeat(100) }`;
+
+    expect(buildSnippet(text, ['needle'], 10)).toBe('…aaaaaaaaa needle bbb…');
+    expect(buildSnippet('short\ntext', ['text'])).toBe('short text');
+  });
+});
+
+describe('highlightTerms', () => {
+  it('should escape the text and highlight the terms', () => {
+    expect(highlightTerms('<b>Pod</b> pods', ['pod'])).toBe('&lt;b&gt;<mark>Pod</mark>&lt;/b&gt; <mark>pod</mark>s');
+  });
+
+  it('should escape the terms used in the pattern', () => {
+    expect(highlightTerms('a.b axb', ['a.b'])).toBe('<mark>a.b</mark> axb');
+  });
+});
+
+describe('searchChats', () => {
+  it('should match the chat names and the message bodies', () => {
+    const results = searchChats('default pods', chats, messages);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].chat.id).toBe('chat-1');
+    expect(results[0].matches.map((m) => [m.messageId, m.messageIndex])).toStrictEqual([
+      [undefined, undefined],
+      ['m2', 1],
+    ]);
+  });
+
+  it('should return the position of the messages without id', () => {
+    const [result] = searchChats('downstream', chats, messages);
+
+    expect(result.chat.id).toBe('chat-2');
+    expect(result.matches).toStrictEqual([{
+      messageId:    undefined,
+      messageIndex: 0,
+      snippet:      'Upgrade the downstream cluster'
+    }]);
+  });
+
+  it('should not return anything for empty queries', () => {
+    expect(searchChats(' ', chats, messages)).toStrictEqual([]);
+  });
+});
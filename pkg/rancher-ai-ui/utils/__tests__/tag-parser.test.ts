@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { FrameType, WSProtocol } from '../../types';
+import { TagTokenizer } from '../tag-parser';
+
+const types = (frames: { type: FrameType }[]) => frames.map((f) => f.type);
+
+describe('TagTokenizer', () => {
+  let tokenizer: TagTokenizer;
+
+  beforeEach(() => {
+    tokenizer = new TagTokenizer();
+  });
+
+  it('should emit standalone tags', () => {
+    expect(types(tokenizer.push('<message>'))).toStrictEqual([FrameType.MessageStart]);
+    expect(types(tokenizer.push('<think>'))).toStrictEqual([FrameType.ThinkingStart]);
+    expect(types(tokenizer.push('</think>'))).toStrictEqual([FrameType.ThinkingEnd]);
+    expect(types(tokenizer.push('<processing-ui-tools/>'))).toStrictEqual([FrameType.ProcessingTools]);
+    expect(types(tokenizer.push('</message>'))).toStrictEqual([FrameType.MessageEnd]);
+  });
+
+  it('should emit wrapping tags with their tags in the payload', () => {
+    const data = '<mcp-response>{"kind":"Pod","name":"p1"}</mcp-response>';
+
+    expect(tokenizer.push(data)).toStrictEqual([{
+      type:     FrameType.McpResult,
+      payload:  data,
+      protocol: WSProtocol.Tag,
+    }]);
+  });
+
+  it('should emit text as soon as it is received', () => {
+    expect(tokenizer.push('Hello ')).toStrictEqual([{
+      type:     FrameType.Text,
+      payload:  'Hello ',
+      protocol: WSProtocol.Tag,
+    }]);
+    expect(tokenizer.push('a < b')[0].payload).toBe('a < b');
+  });
+
+  it('should split the data into several frames', () => {
+    const frames = tokenizer.push('<message>Hi<mcp-doclink>https://ranchermanager.docs.rancher.com</mcp-doclink>!</message>');
+
+    expect(types(frames)).toStrictEqual([
+      FrameType.MessageStart,
+      FrameType.Text,
+      FrameType.DocLink,
+      FrameType.Text,
+      FrameType.MessageEnd,
+    ]);
+    expect(frames[1].payload).toBe('Hi');
+    expect(frames[3].payload).toBe('!');
+  });
+
+  it('should buffer tags split across messages', () => {
+    expect(tokenizer.push('Text <ui-to')).toStrictEqual([{
+      type:     FrameType.Text,
+      payload:  'Text ',
+      protocol: WSProtocol.Tag,
+    }]);
+    expect(tokenizer.push('ols>[{"name":')).toStrictEqual([]);
+    expect(tokenizer.push('"tool"}]</ui-')).toStrictEqual([]);
+
+    const frames = tokenizer.push('tools> end');
+
+    expect(types(frames)).toStrictEqual([FrameType.Tools, FrameType.Text]);
+    expect(frames[0].payload).toBe('<ui-tools>[{"name":"tool"}]</ui-tools>');
+    expect(frames[1].payload).toBe(' end');
+  });
+
+  it('should buffer split confirmation responses', () => {
+    tokenizer.push('<confirmation-');
+    tokenizer.push('response>[{"action":');
+
+    const frames = tokenizer.push('"delete"}]</confirmation-response>');
+
+    expect(types(frames)).toStrictEqual([FrameType.Confirmation]);
+    expect(frames[0].payload).toBe('<confirmation-response>[{"action":"delete"}]</confirmation-response>');
+  });
+
+  it('should emit unclosed tags as text when the message ends', () => {
+    const frames = tokenizer.push('<mcp-response> is a tag</message>');
+
+    expect(types(frames)).toStrictEqual([FrameType.Text, FrameType.MessageEnd]);
+    expect(frames[0].payload).toBe('<mcp-response> is a tag');
+  });
+
+  it('should emit the buffered data as text when the message ends in another message', () => {
+    tokenizer.push('<mcp-response>{"kind":');
+
+    let frames = tokenizer.push('</message>');
+
+    expect(types(frames)).toStrictEqual([FrameType.Text, FrameType.MessageEnd]);
+    expect(frames[0].payload).toBe('<mcp-response>{"kind":');
+
+    tokenizer.push('<message>Text <mcp-res');
+    frames = tokenizer.push('</message>');
+
+    expect(types(frames)).toStrictEqual([FrameType.Text, FrameType.MessageEnd]);
+    expect(frames[0].payload).toBe('<mcp-res');
+    expect(tokenizer.flush()).toStrictEqual([]);
+  });
+
+  it('should flush the buffered data as text', () => {
+    tokenizer.push('<mcp-response>{"kind":');
+
+    expect(tokenizer.flush()).toStrictEqual([{
+      type:     FrameType.Text,
+      payload:  '<mcp-response>{"kind":',
+      protocol: WSProtocol.Tag,
+    }]);
+    expect(tokenizer.flush()).toStrictEqual([]);
+  });
+
+  it('should discard the buffered data on reset', () => {
+    tokenizer.push('<mess');
+    tokenizer.reset();
+
+    expect(types(tokenizer.push('age>'))).toStrictEqual([FrameType.Text]);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  describe, it, expect, jest, beforeEach
+} from '@jest/globals';
+import { ToolCallErrorReason, UITool } from '../../types';
+import { ToolName } from '../../components/tools/types';
+import { validateToolCall } from '../validator';
+import toolsConfigData from '../../ui-tools.json';
+
+const definition = (name: string) => (toolsConfigData.tools as UITool[]).find((tool) => tool.name === name);
+
+describe('validateToolCall', () => {
+  let warn: jest.SpiedFunction<typeof console.warn>;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should accept a valid tool call', () => {
+    expect(validateToolCall({
+      toolName: ToolName.ShowLogs,
+      input:    {
+        cluster:       'local',
+        namespace:     'default',
+        name:          'nginx',
+        containerName: 'nginx'
+      }
+    }, definition(ToolName.ShowLogs))).toStrictEqual([]);
+  });
+
+  it('should skip the unknown tools with a single warning per tool', () => {
+    expect(validateToolCall({
+      toolName: 'unknown',
+      input:    {}
+    })).toStrictEqual([]);
+    expect(validateToolCall({
+      toolName: 'unknown',
+      input:    { name: 'nginx' }
+    })).toStrictEqual([]);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('[AI Assistant] Unknown tool: unknown');
+  });
+
+  it('should reject invalid inputs', () => {
+    expect(validateToolCall({
+      toolName: ToolName.ShowLogs,
+      input:    'nginx' as any
+    }, definition(ToolName.ShowLogs))).toStrictEqual([{ reason: ToolCallErrorReason.InvalidInput }]);
+  });
+
+  it('should report the missing required fields and the type mismatches', () => {
+    expect(validateToolCall({
+      toolName: ToolName.ShowLogs,
+      input:    {
+        cluster:       'local',
+        namespace:     42,
+        containerName: ''
+      }
+    }, definition(ToolName.ShowLogs))).toStrictEqual([
+      {
+        reason: ToolCallErrorReason.Required,
+        field:  'name'
+      },
+      {
+        reason: ToolCallErrorReason.Required,
+        field:  'containerName'
+      },
+      {
+        reason:   ToolCallErrorReason.Type,
+        field:    'namespace',
+        expected: 'string'
+      },
+    ]);
+  });
+
+  it('should check the enum values, the length limits and the fields required by an enum value', () => {
+    expect(validateToolCall({
+      toolName: ToolName.Explore,
+      input:    { route: 'secrets' }
+    }, definition(ToolName.Explore)).map((e) => [e.reason, e.field])).toStrictEqual([
+      [ToolCallErrorReason.Enum, 'route'],
+    ]);
+
+    expect(validateToolCall({
+      toolName: ToolName.Explore,
+      input:    {
+        route: 'nodes',
+        label: 'a'.repeat(51)
+      }
+    }, definition(ToolName.Explore)).map((e) => [e.reason, e.field])).toStrictEqual([
+      [ToolCallErrorReason.Required, 'cluster'],
+      [ToolCallErrorReason.MaxLength, 'label'],
+    ]);
+  });
+
+  it('should check the array inputs of the resource table', () => {
+    expect(validateToolCall({
+      toolName: ToolName.ResourceTable,
+      input:    {
+        cluster:  'local',
+        resource: 'pod',
+        columns:  ['status'],
+        rows:     [{
+          name:   'nginx',
+          status: 'Running'
+        }]
+      }
+    }, definition(ToolName.ResourceTable))).toStrictEqual([]);
+
+    expect(validateToolCall({
+      toolName: ToolName.ResourceTable,
+      input:    {
+        cluster:  'local',
+        resource: 'pod',
+        columns:  'status',
+        rows:     [{ name: 'nginx' }]
+      }
+    }, definition(ToolName.ResourceTable))).toStrictEqual([{
+      reason:   ToolCallErrorReason.Type,
+      field:    'columns',
+      expected: 'array'
+    }]);
+  });
+
+  it('should support the required array of JSON Schema', () => {
+    expect(validateToolCall({
+      toolName: 'custom',
+      input:    {}
+    }, {
+      name:        'custom',
+      description: '',
+      prompt:      '',
+      category:    'viewer',
+      revision:    1,
+      enabled:     true,
+      metadata:    {},
+      schema:      {
+        properties: { id: { type: 'string' } },
+        required:   ['id']
+      }
+    })).toStrictEqual([{
+      reason: ToolCallErrorReason.Required,
+      field:  'id'
+    }]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { layoutRows, visibleRows } from '../virtual';
+
+describe('layoutRows', () => {
+  it('should lay out the rows with their measured or estimated height', () => {
+    const { rows, height } = layoutRows(['a', 'b', 'c'], { b: 50 }, 100, 10);
+
+    expect(rows).toStrictEqual([
+      {
+        key:    'a',
+        top:    0,
+        height: 100
+      },
+      {
+        key:    'b',
+        top:    110,
+        height: 50
+      },
+      {
+        key:    'c',
+        top:    170,
+        height: 100
+      },
+    ]);
+    expect(height).toBe(270);
+  });
+
+  it('should return an empty list', () => {
+    expect(layoutRows([], {}, 100, 10)).toStrictEqual({
+      rows:   [],
+      height: 0
+    });
+  });
+});
+
+describe('visibleRows', () => {
+  it('should return the rows in the viewport of a list of variable height', () => {
+    const { rows } = layoutRows(['a', 'b', 'c', 'd'], {
+      a: 20,
+      c: 300
+    }, 100);
+
+    expect(visibleRows(rows, 150, 100, 0).map((r) => r.key)).toStrictEqual(['c']);
+    expect(visibleRows(rows, 150, 400, 1).map((r) => r.key)).toStrictEqual(['b', 'c', 'd']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  isManualDisconnect, MANUAL_DISCONNECT, reconnectDelay, RECONNECT_BASE_DELAY, RECONNECT_MAX_DELAY
+} from '../ws';
+
+describe('isManualDisconnect', () => {
+  it('should detect manual disconnections', () => {
+    const event = {
+      code:   MANUAL_DISCONNECT[0],
+      reason: MANUAL_DISCONNECT[1]
+    } as CloseEvent;
+
+    expect(isManualDisconnect(event)).toBe(true);
+  });
+
+  it('should not detect abnormal closures as manual', () => {
+    expect(isManualDisconnect({
+      code:   1006,
+      reason: ''
+    } as CloseEvent)).toBe(false);
+    expect(isManualDisconnect({
+      code:   1000,
+      reason: ''
+    } as CloseEvent)).toBe(false);
+  });
+});
+
+describe('reconnectDelay', () => {
+  it('should grow exponentially with the attempt number', () => {
+    const noJitter = () => 1;
+
+    expect(reconnectDelay(0, noJitter)).toBe(RECONNECT_BASE_DELAY);
+    expect(reconnectDelay(1, noJitter)).toBe(RECONNECT_BASE_DELAY * 2);
+    expect(reconnectDelay(2, noJitter)).toBe(RECONNECT_BASE_DELAY * 4);
+  });
+
+  it('should never exceed the maximum delay', () => {
+    expect(reconnectDelay(50, () => 1)).toBe(RECONNECT_MAX_DELAY);
+  });
+
+  it('should randomize the second half of the delay', () => {
+    expect(reconnectDelay(2, () => 0)).toBe(RECONNECT_BASE_DELAY * 2);
+    expect(reconnectDelay(2, () => 0.5)).toBe(RECONNECT_BASE_DELAY * 3);
+  });
+
+  it('should treat negative attempts as the first attempt', () => {
+    expect(reconnectDelay(-1, () => 1)).toBe(RECONNECT_BASE_DELAY);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  HistoryChatMessage, Message, MessageBookmark, MessageLabelKey, MessageTag, Role
+} from '../types';
+
+/**
+ * Maximum length of the notes attached to the bookmarks.
+ */
+export const BOOKMARK_NOTE_MAX_LENGTH = 200;
+
+/**
+ * Returns the bookmark of a history message: the bookmark tag, with the note label if any.
+ */
+export function bookmarkFromHistoryMessage(msg: Pick<HistoryChatMessage, 'labels' | 'tags'>): MessageBookmark | null {
+  if (!msg.tags?.includes(MessageTag.Bookmark)) {
+    return null;
+  }
+
+  const note = msg.labels?.[MessageLabelKey.BookmarkNote];
+
+  return note ? { note } : {};
+}
+
+/**
+ * Returns the labels and tags of a message stored in the history, with the bookmark applied.
+ * The labels and the tags set by the agent are preserved.
+ *
+ * @param message The message
+ * @param bookmark The bookmark, null to remove it
+ */
+export function bookmarkLabelsAndTags(message: Message, bookmark: MessageBookmark | null | undefined): Required<Pick<HistoryChatMessage, 'labels' | 'tags'>> {
+  const labels: HistoryChatMessage['labels'] = { ...message.labels };
+  const tags = (message.tags || []).filter((tag) => tag !== MessageTag.Bookmark);
+  const note = bookmark?.note?.trim().slice(0, BOOKMARK_NOTE_MAX_LENGTH);
+
+  if (message.summaryContent) {
+    labels[MessageLabelKey.Summary] = message.summaryContent;
+  }
+
+  if (bookmark) {
+    tags.push(MessageTag.Bookmark);
+  }
+
+  if (note) {
+    labels[MessageLabelKey.BookmarkNote] = note;
+  } else {
+    delete labels[MessageLabelKey.BookmarkNote];
+  }
+
+  return {
+    labels,
+    tags
+  };
+}
+
+/**
+ * Returns the bookmarked messages, in display order.
+ */
+export function bookmarkedMessages(messages: Message[]): Message[] {
+  return messages.filter((message) => !!message.bookmark);
+}
+
+/**
+ * Finds the history message a live message was stored as, by its position along the chain of parents.
+ * At each position, the history message with the same history id is used, else the one with the same role and content, the latest first.
+ *
+ * @param path The conversation up to the live message, the messages which are not stored in the history excluded (e.g. the welcome message)
+ * @param history The messages of the chat, loaded from the history
+ */
+export function findHistoryMessage(path: Message[], history: Message[]): Message | null {
+  // Agents without branches store the messages in order
+  const parents = history.map((msg, i) => (msg.historyParentId !== undefined ? msg.historyParentId || null : history[i - 1]?.historyId || null));
+
+  let parentId: string | null = null;
+  let found: Message | null = null;
+
+  for (const message of path) {
+    const role = message.role === Role.User ? Role.User : Role.Assistant;
+    const content = (message.messageContent || '').trim();
+    const children = history.filter((msg, i) => parents[i] === parentId && msg.role === role).reverse();
+
+    found = children.find((msg) => !!message.historyId && msg.historyId === message.historyId) ||
+      children.find((msg) => !!content && (msg.messageContent || '').trim() === content) ||
+      null;
+
+    if (!found?.historyId) {
+      return null;
+    }
+
+    parentId = found.historyId;
+  }
+
+  return found;
+}
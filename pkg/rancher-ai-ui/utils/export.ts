@@ -0,0 +1,504 @@
+import MarkdownIt from 'markdown-it';
+import {
+  Agent,
+  ChatExport,
+  ChatExportFormat,
+  ConfirmationStatus,
+  HistoryChatMessage,
+  Message,
+  MessageConfirmation,
+  MessageInternalSource,
+  Role,
+  SourceLinkItem,
+  Tag,
+  ToolCall
+} from '../types';
+import { ToolName } from '../components/tools/types';
+import { warn } from './log';
+import { buildMessageFromHistoryMessage } from './format';
+import { bookmarkLabelsAndTags } from './bookmark';
+
+/**
+ * Kind and version of the JSON export, checked when a chat is imported.
+ */
+export const CHAT_EXPORT_KIND = 'rancher-ai-ui.chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ChatExportArgs {
+  chatId: string;
+  name?: string;
+  userName?: string;
+  messages: Message[];
+}
+
+export interface ChatExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const FILE_EXTENSIONS: Record<ChatExportFormat, [string, string]> = {
+  [ChatExportFormat.Markdown]: ['md', 'text/markdown'],
+  [ChatExportFormat.Json]:     ['json', 'application/json'],
+  [ChatExportFormat.Html]:     ['html', 'text/html'],
+};
+
+// Raw HTML is not rendered: the exported file must be safe to open
+const md = new MarkdownIt({
+  html:    false,
+  breaks:  true,
+  linkify: true,
+});
+
+/**
+ * Exports a chat to a file in the given format.
+ *
+ * Markdown and HTML exports include the messages of the conversation shown,
+ * the JSON export includes all the messages (every version) and can be imported.
+ */
+export function exportChat(format: ChatExportFormat, args: ChatExportArgs): ChatExportFile {
+  const [extension, mimeType] = FILE_EXTENSIONS[format];
+
+  let content = '';
+
+  switch (format) {
+  case ChatExportFormat.Json:
+    content = JSON.stringify(exportChatToJson(args), null, 2);
+    break;
+  case ChatExportFormat.Html:
+    content = exportChatToHtml(args);
+    break;
+  default:
+    content = exportChatToMarkdown(args);
+  }
+
+  return {
+    fileName: `Rancher-liz-chat-${ args.chatId }_${ new Date().toISOString().slice(0, 10) }.${ extension }`,
+    mimeType,
+    content,
+  };
+}
+
+/**
+ * Exports the messages with the format of the history API, keeping the parent of each message.
+ */
+export function exportChatToJson(args: ChatExportArgs): ChatExport {
+  const messages = (args.messages || []).filter(isExportable);
+
+  // Messages loaded from the history keep their id, the others are identified by their local id
+  const ids = messages.reduce((acc, message, i) => ({
+    ...acc,
+    [`${ message.id ?? i }`]: message.historyId || `${ message.id ?? i + 1 }`
+  }), {} as Record<string, string>);
+
+  return {
+    kind:       CHAT_EXPORT_KIND,
+    version:    CHAT_EXPORT_VERSION,
+    chat:       {
+      id:   args.chatId,
+      name: args.name,
+    },
+    exportedAt: new Date().toISOString(),
+    messages:   messages.map((message, i) => {
+      let parentId: string | null = i > 0 ? ids[`${ messages[i - 1].id ?? i - 1 }`] : null;
+
+      if (message.parentId !== undefined) {
+        parentId = message.parentId ? ids[`${ message.parentId }`] ?? null : null;
+      } else if (message.historyParentId !== undefined) {
+        parentId = message.historyParentId;
+      }
+
+      return {
+        ...toHistoryMessage(message, args.chatId),
+        id: ids[`${ message.id ?? i }`],
+        parentId,
+      };
+    }),
+  };
+}
+
+/**
+ * Parses and validates a JSON export.
+ *
+ * @param content Content of the exported file
+ * @returns The chat export, null if the content is not a valid export
+ */
+export function parseChatExport(content: string): ChatExport | null {
+  let value: any;
+
+  try {
+    value = JSON.parse(content);
+  } catch (err) {
+    warn('Invalid chat export, not a JSON file:', err);
+
+    return null;
+  }
+
+  if (!value || typeof value !== 'object' || value.kind !== CHAT_EXPORT_KIND) {
+    warn('Invalid chat export kind:', value?.kind);
+
+    return null;
+  }
+
+  if (!Number.isInteger(value.version) || value.version < 1 || value.version > CHAT_EXPORT_VERSION) {
+    warn('Unsupported chat export version:', value.version);
+
+    return null;
+  }
+
+  if (!value.chat || typeof value.chat.id !== 'string' || !Array.isArray(value.messages)) {
+    warn('Invalid chat export format:', value);
+
+    return null;
+  }
+
+  const ids = new Set<string>();
+
+  for (const message of value.messages) {
+    if (!isHistoryMessage(message) || (message.parentId && !ids.has(message.parentId))) {
+      warn('Invalid message in chat export:', message);
+
+      return null;
+    }
+
+    if (message.id) {
+      ids.add(message.id);
+    }
+  }
+
+  return {
+    kind:       value.kind,
+    version:    value.version,
+    chat:       {
+      id:   value.chat.id,
+      name: typeof value.chat.name === 'string' ? value.chat.name : undefined,
+    },
+    exportedAt: value.exportedAt,
+    messages:   value.messages,
+  };
+}
+
+/**
+ * Builds the messages of a chat export, to be shown read-only or continued in a new chat.
+ *
+ * Imported confirmations are never pending, so that they can't be executed again.
+ *
+ * @param data The chat export
+ * @param agents Agents, to restore the agent of each message
+ */
+export function messagesFromChatExport(data: ChatExport, agents: Agent[] = []): Message[] {
+  return data.messages.map((msg) => buildMessageFromHistoryMessage({
+    ...msg,
+    confirmation: msg.message.startsWith(Tag.ConfirmationStart) ? !!msg.confirmation : msg.confirmation
+  }, agents));
+}
+
+/**
+ * Returns the latest version of the conversation, as selected when a chat is loaded from the history:
+ * the last reply to each message is shown.
+ *
+ * @param messages Messages with their history id and the history id of their parent
+ */
+export function latestConversation(messages: Message[]): Message[] {
+  const latest = messages.reduce((acc, message) => ({
+    ...acc,
+    [message.historyParentId || '']: message
+  }), {} as Record<string, Message>);
+
+  const conversation: Message[] = [];
+  let message: Message | undefined = latest[''];
+
+  while (message && !conversation.includes(message)) {
+    conversation.push(message);
+    message = message.historyId ? latest[message.historyId] : undefined;
+  }
+
+  return conversation;
+}
+
+// Parents are exported before their children
+function isHistoryMessage(message: any): message is HistoryChatMessage {
+  return !!message && typeof message === 'object' &&
+    (message.role === Role.User || message.role === 'agent') &&
+    typeof message.message === 'string' &&
+    !isNaN(Date.parse(message.createdAt)) &&
+    (message.id === undefined || typeof message.id === 'string') &&
+    (message.parentId === undefined || message.parentId === null || typeof message.parentId === 'string') &&
+    (message.context === undefined || (typeof message.context === 'object' && !Array.isArray(message.context))) &&
+    (message.labels === undefined || typeof message.labels === 'object') &&
+    (message.tags === undefined || Array.isArray(message.tags)) &&
+    (message.confirmation === undefined || typeof message.confirmation === 'boolean') &&
+    (message.tools === undefined || Array.isArray(message.tools));
+}
+
+/**
+ * Builds the history message parsed by `buildMessageFromHistoryMessage`.
+ */
+function toHistoryMessage(message: Message, chatId: string): HistoryChatMessage {
+  const resources = (message.relatedResourcesActions || []).map((action) => action.resource).filter((r) => !!r);
+  const links = (message.sourceLinks || []).map((link) => `${ Tag.DocLinkStart }${ sourceLinkValue(link) }${ Tag.DocLinkEnd }`);
+
+  let text = '';
+
+  if (message.confirmation?.actions) {
+    text = `${ Tag.ConfirmationStart }${ JSON.stringify(message.confirmation.actions) }${ Tag.ConfirmationEnd }`;
+  } else {
+    text = [
+      resources.length ? `${ Tag.McpResultStart }${ JSON.stringify(resources) }${ Tag.McpResultEnd }` : '',
+      message.thinkingContent ? `${ Tag.ThinkingStart }${ message.thinkingContent }${ Tag.ThinkingEnd }` : '',
+      message.messageContent || '',
+      ...links,
+    ].filter((part) => !!part).join('\n');
+  }
+
+  const context = (message.contextContent || []).reduce((acc, ctx) => ({
+    ...acc,
+    [ctx.tag]: ctx.value
+  }), {} as Record<string, any>);
+
+  return {
+    chatId,
+    role:         message.role === Role.User ? Role.User : 'agent',
+    agent:        message.agentMetadata?.agent?.name || null,
+    message:      text,
+    context,
+    ...bookmarkLabelsAndTags(message, message.bookmark),
+    confirmation: message.confirmation ? message.confirmation.status === ConfirmationStatus.Confirmed : undefined,
+    tools:        message.tools || [],
+    createdAt:    new Date(message.timestamp || Date.now()).toISOString(),
+  };
+}
+
+/**
+ * Exports the conversation to Markdown: YAML is code-fenced, confirmations are tables.
+ */
+export function exportChatToMarkdown(args: ChatExportArgs): string {
+  const header = [
+    `# ${ args.name || args.chatId }`,
+    '',
+    `_Chat \`${ args.chatId }\`, exported on ${ new Date().toLocaleString() }_`,
+  ];
+
+  const messages = (args.messages || [])
+    .filter(isExportable)
+    .map((message) => messageToMarkdown(message, args.userName));
+
+  return [...header, ...messages].join('\n\n').concat('\n');
+}
+
+function messageToMarkdown(message: Message, userName?: string): string {
+  const out: string[] = [];
+
+  const author = message.role === Role.User ? (userName || 'User') : `Liz${ message.agentMetadata?.agent?.displayName ? ` (${ message.agentMetadata.agent.displayName })` : '' }`;
+  const timestamp = message.timestamp ? ` · ${ new Date(message.timestamp).toLocaleString() }` : '';
+
+  out.push(`---\n\n### ${ author }${ timestamp }`);
+
+  if (message.summaryContent) {
+    out.push(`> ${ message.summaryContent }`);
+  }
+
+  if (message.thinkingContent) {
+    out.push(`**Thinking**\n\n${ quote(message.thinkingContent) }`);
+  }
+
+  if (message.messageContent) {
+    out.push(message.messageContent);
+  }
+
+  if (message.contextContent?.length) {
+    out.push(`**Context:** ${ message.contextContent.map((ctx) => `\`${ ctx.tag }: ${ ctx.valueLabel || printValue(ctx.value) }\``).join(', ') }`);
+  }
+
+  (message.tools || []).forEach((tool) => out.push(toolToMarkdown(tool)));
+
+  if (message.confirmation) {
+    out.push(confirmationToMarkdown(message.confirmation));
+  }
+
+  if (message.relatedResourcesActions?.length) {
+    out.push(`**Related resources:**\n\n${ message.relatedResourcesActions.map((action) => `- ${ resourceLabel(action.resource) }`).join('\n') }`);
+  }
+
+  if (message.sourceLinks?.length) {
+    out.push(`**Sources:**\n\n${ message.sourceLinks.map((link) => `- ${ sourceLinkValue(link) }`).join('\n') }`);
+  }
+
+  if (message.stopped) {
+    out.push('_The response was stopped._');
+  } else if (message.interrupted) {
+    out.push('_The response was interrupted by a connection loss._');
+  }
+
+  return out.join('\n\n');
+}
+
+function toolToMarkdown(tool: ToolCall): string {
+  const input = tool.input || {};
+  const resource = resourceLabel({
+    kind:      input.resourceKind,
+    namespace: input.resourceNamespace,
+    name:      input.resourceName
+  });
+
+  switch (tool.toolName) {
+  case ToolName.ShowYaml:
+    return `**YAML** ${ resource }\n\n${ fence('yaml', input.yaml || '') }`;
+  case ToolName.ShowYamlDiff:
+    return `**YAML changes** ${ resource }\n\n${ fence('diff', diffLines(input.original || '', input.patched || '').join('\n')) }`;
+  case ToolName.Suggestions:
+    return `**Suggestions:**\n\n${ [1, 2, 3].map((i) => input[`suggestion${ i }`]).filter((s) => !!s).map((s) => `- ${ s }`).join('\n') }`;
+  case ToolName.SelectOption:
+    return `**${ input.label || 'Options' }:**\n\n${ [1, 2, 3].map((i) => input[`option${ i }`]).filter((o) => !!o).map((o) => `- ${ o }`).join('\n') }`;
+  default:
+    return `**Tool \`${ tool.toolName }\`**\n\n${ fence('json', JSON.stringify(input, null, 2)) }`;
+  }
+}
+
+function confirmationToMarkdown(confirmation: MessageConfirmation): string {
+  const rows = (confirmation.actions || []).map((action) => {
+    const {
+      kind, namespace, name, cluster
+    } = action.resource || {};
+
+    return `| ${ [action.type, kind, namespace, name, cluster].map((v) => escapeCell(v || '')).join(' | ') } |`;
+  });
+
+  const patches = (confirmation.actions || [])
+    .filter((action) => !!action.payload?.patch?.length)
+    .map((action) => fence('json', JSON.stringify(action.payload?.patch, null, 2)));
+
+  return [
+    `**Confirmation:** ${ confirmation.status }`,
+    [
+      '| Action | Kind | Namespace | Name | Cluster |',
+      '| --- | --- | --- | --- | --- |',
+      ...rows
+    ].join('\n'),
+    ...patches
+  ].join('\n\n');
+}
+
+/**
+ * Exports the conversation to a self-contained HTML page, rendered from the Markdown export.
+ */
+export function exportChatToHtml(args: ChatExportArgs): string {
+  const title = escapeHtml(args.name || args.chatId);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${ title }</title>
+<style>
+  body { font-family: Lato, Helvetica, Arial, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #141419; line-height: 1.5; }
+  h3 { margin-bottom: 0.25rem; }
+  pre { background: #f4f5fa; border: 1px solid #dcdee7; border-radius: 4px; padding: 0.75rem; overflow-x: auto; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.875rem; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #dcdee7; color: #6c6c76; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #dcdee7; padding: 0.25rem 0.5rem; text-align: left; }
+  hr { border: none; border-top: 1px solid #dcdee7; margin: 1.5rem 0; }
+</style>
+</head>
+<body>
+${ md.render(exportChatToMarkdown(args)) }
+</body>
+</html>
+`;
+}
+
+/**
+ * Returns a line diff of two texts, prefixing removed lines with '-' and added lines with '+'.
+ */
+export function diffLines(original: string, patched: string): string[] {
+  const a = original.split('\n');
+  const b = patched.split('\n');
+
+  // Longest common subsequence lengths
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push(`  ${ a[i++] }`);
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push(`- ${ a[i++] }`);
+    } else {
+      out.push(`+ ${ b[j++] }`);
+    }
+  }
+
+  while (i < a.length) {
+    out.push(`- ${ a[i++] }`);
+  }
+
+  while (j < b.length) {
+    out.push(`+ ${ b[j++] }`);
+  }
+
+  return out;
+}
+
+/**
+ * Returns true if the message is part of the conversation: welcome, errors and the other UI messages are not.
+ */
+export function isExportable(message: Message): boolean {
+  return !message.templateContent &&
+    message.source !== MessageInternalSource.Welcome &&
+    message.source !== MessageInternalSource.Error &&
+    (message.role === Role.User || message.role === Role.Assistant);
+}
+
+// The fence is longer than any backtick sequence in the code
+function fence(lang: string, code: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) || []).map((m) => m.length));
+  const ticks = '`'.repeat(longest + 1);
+
+  return `${ ticks }${ lang }\n${ code.replace(/\n$/, '') }\n${ ticks }`;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map((line) => `> ${ line }`).join('\n');
+}
+
+function resourceLabel(resource?: { kind?: string; namespace?: string; name?: string }): string {
+  if (!resource) {
+    return '';
+  }
+
+  const path = [resource.namespace, resource.name].filter((p) => !!p).join('/');
+
+  return [resource.kind, path ? `\`${ path }\`` : ''].filter((p) => !!p).join(' ');
+}
+
+function sourceLinkValue(link: SourceLinkItem): string {
+  return typeof link === 'string' ? link : link.value;
+}
+
+function printValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,189 @@
+import { FindMatch, FindMatchField, FormattedMessage, ToolCall } from '../types';
+
+const ENTITIES: Record<string, string> = {
+  amp:  '&',
+  lt:   '<',
+  gt:   '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+/**
+ * Returns the case insensitive pattern of the query, null if the query is empty.
+ */
+function findPattern(query: string): RegExp | null {
+  const value = (query || '').trim();
+
+  if (!value) {
+    return null;
+  }
+
+  return new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+}
+
+// Tags are split from the text, at odd positions
+function splitHtml(html: string): string[] {
+  return (html || '').split(/(<[^>]*>)/);
+}
+
+// Decoded value of an HTML entity, e.g. `&lt;`
+function decodeEntity(entity: string): string {
+  const name = entity.slice(1, -1);
+
+  if (name.startsWith('#')) {
+    const code = name[1]?.toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+
+    return Number.isNaN(code) || code > 0x10ffff ? '\ufffd' : String.fromCodePoint(code);
+  }
+
+  // Unknown entities don't match the queries
+  return ENTITIES[name.toLowerCase()] ?? '\ufffd';
+}
+
+/**
+ * Finds the occurrences of the pattern in the decoded value of an HTML text, the entities are never split.
+ *
+ * @returns The entities and characters of the text, and the range of units of each occurrence
+ */
+function findTextMatches(text: string, pattern: RegExp): { units: string[], matches: [number, number][] } {
+  const units = text.match(/&(?:#\d+|#x[\da-f]+|\w+);|[\s\S]/gi) || [];
+  const unitOf: number[] = []; // unit of each character of the decoded text
+
+  const decoded = units.map((unit, i) => {
+    const value = unit.startsWith('&') && unit.length > 1 ? decodeEntity(unit) : unit;
+
+    unitOf.push(...Array(value.length).fill(i));
+
+    return value;
+  }).join('');
+
+  const matches: [number, number][] = [];
+
+  for (const match of decoded.matchAll(pattern)) {
+    const first = unitOf[match.index as number];
+    const last = unitOf[(match.index as number) + match[0].length - 1];
+
+    if (!matches.length || first > matches[matches.length - 1][1]) {
+      matches.push([first, last]);
+    }
+  }
+
+  return {
+    units,
+    matches
+  };
+}
+
+/**
+ * Counts the occurrences of the query in the text of an HTML content, tags excluded.
+ */
+export function countHtmlMatches(html: string, query: string): number {
+  const pattern = findPattern(query);
+
+  if (!pattern) {
+    return 0;
+  }
+
+  return splitHtml(html).reduce((count, part, i) => count + (i % 2 ? 0 : findTextMatches(part, pattern).matches.length), 0);
+}
+
+/**
+ * Wraps the occurrences of the query in the text of an HTML content in <mark> tags.
+ *
+ * @param html HTML content, e.g. the markdown of a message rendered by `formatMessageContent`
+ * @param query Query of the find
+ * @param active Position of the occurrence marked as the active match, if any
+ */
+export function highlightHtmlMatches(html: string, query: string, active = -1): string {
+  const pattern = findPattern(query);
+
+  if (!pattern || !html) {
+    return html;
+  }
+
+  let occurrence = 0;
+
+  return splitHtml(html)
+    .map((part, i) => {
+      if (i % 2) {
+        return part;
+      }
+
+      const { units, matches } = findTextMatches(part, pattern);
+      let marked = '';
+      let next = 0;
+
+      matches.forEach(([first, last]) => {
+        const className = occurrence++ === active ? 'chat-find-match chat-find-match-active' : 'chat-find-match';
+
+        marked += `${ units.slice(next, first).join('') }<mark class="${ className }">${ units.slice(first, last + 1).join('') }</mark>`;
+        next = last + 1;
+      });
+
+      return marked + units.slice(next).join('');
+    })
+    .join('');
+}
+
+/**
+ * Returns the text of the tool calls: the values of their input, e.g. the YAML of the resources.
+ */
+export function toolsText(tools: ToolCall[] = []): string {
+  const values: string[] = [];
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(collect);
+    } else if (value !== null && value !== undefined) {
+      values.push(`${ value }`);
+    }
+  };
+
+  tools.forEach((tool) => collect(tool.input));
+
+  return values.join('\n');
+}
+
+/**
+ * Finds the occurrences of the query in the messages of a chat: their content, thinking and tool calls.
+ *
+ * Messages are searched even if they are not rendered, e.g. outside the window of a virtualized list.
+ *
+ * @param messages Formatted messages, in display order
+ * @param query Query of the find
+ * @returns The matches, in display order
+ */
+export function findInMessages(messages: FormattedMessage[], query: string): FindMatch[] {
+  const pattern = findPattern(query);
+
+  if (!pattern) {
+    return [];
+  }
+
+  return messages.reduce((acc, message) => {
+    if (message.id === undefined) {
+      return acc;
+    }
+
+    const counts: [FindMatchField, number][] = [
+      [FindMatchField.Message, countHtmlMatches(message.formattedMessageContent || '', query)],
+      [FindMatchField.Thinking, countHtmlMatches(message.formattedThinkingContent || '', query)],
+      [FindMatchField.Tools, (toolsText(message.tools).match(pattern) || []).length],
+    ];
+
+    counts.forEach(([field, count]) => {
+      for (let occurrence = 0; occurrence < count; occurrence++) {
+        acc.push({
+          messageId: message.id as number,
+          field,
+          occurrence
+        });
+      }
+    });
+
+    return acc;
+  }, [] as FindMatch[]);
+}
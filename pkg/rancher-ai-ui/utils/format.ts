@@ -18,18 +18,20 @@ import {
   SubAgentProcessingMetadata,
   AgentSelectionMode,
   McpAuthenticationRequest,
+  MessageHistoryIds,
 } from '../types';
 import { error } from '../utils/log';
 import { validateActionResource } from './validator';
-import { printTools } from '../components/tools/format';
+import { bookmarkFromHistoryMessage } from './bookmark';
 
 interface WSInputMessageArgs {
   prompt: string;
   agent?: string;
   context?: Context[];
-  labels?: Record<MessageLabelKey, string>;
+  labels?: Partial<Record<MessageLabelKey, string>>;
   tags?: string[];
   tools?: ToolsConfig;
+  parentId?: string; // history id of the message the prompt replies to
 }
 
 const md = new MarkdownIt({
@@ -66,12 +68,13 @@ export function formatWSInputMessage(args: WSInputMessageArgs): string {
   const tags = args.tags?.length ? args.tags : undefined;
 
   return JSON.stringify({
-    prompt: args.prompt,
-    agent:  args.agent,
-    tools:  args.tools,
-    labels: args.labels,
+    prompt:   args.prompt,
+    agent:    args.agent,
+    tools:    args.tools,
+    labels:   args.labels,
     context,
     tags,
+    parentId: args.parentId,
   });
 }
 
@@ -92,9 +95,9 @@ export function formatChatErrorMessage(data: string): ChatError {
 }
 
 export function formatChatMetadata(data: string): ChatMetadata | null {
-  if (data.startsWith(Tag.ChatMetadataStart) && data.endsWith(Tag.ChatMetadataEnd)) {
-    const cleaned = data.replaceAll(Tag.ChatMetadataStart, '').replaceAll(Tag.ChatMetadataEnd, '').trim();
+  const cleaned = data.replaceAll(Tag.ChatMetadataStart, '').replaceAll(Tag.ChatMetadataEnd, '').trim();
 
+  if (cleaned) {
     try {
       return JSON.parse(cleaned);
     } catch (err) {
@@ -146,6 +149,54 @@ export function formatSubAgentProcessingMetadata(data: string): SubAgentProcessi
   return null;
 }
 
+/**
+ * Parses the labels sent by the agent at the end of a message (JSON protocol), e.g. { "labels": { "summary": "..." } }
+ */
+export function formatMessageLabels(data: string): Partial<Record<MessageLabelKey, string>> | null {
+  const cleaned = (data || '').replaceAll(Tag.MessageEnd, '').trim();
+
+  if (!cleaned) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(cleaned);
+
+    return parsed?.labels || null;
+  } catch (err) {
+    error('Failed to parse message labels:', err);
+  }
+
+  return null;
+}
+
+/**
+ * Parses the history ids sent by the agent at the end of a message (JSON protocol) or in the agent metadata,
+ * e.g. { "messageId": "...", "parentId": "..." }
+ */
+export function formatMessageHistoryIds(data: string): MessageHistoryIds | null {
+  const cleaned = (data || '').replaceAll(Tag.MessageEnd, '').replaceAll(Tag.AgentMetadataStart, '').replaceAll(Tag.AgentMetadataEnd, '').trim();
+
+  if (!cleaned) {
+    return null;
+  }
+
+  try {
+    const { messageId, parentId } = JSON.parse(cleaned) || {};
+
+    if (messageId) {
+      return {
+        messageId: `${ messageId }`,
+        parentId:  parentId ? `${ parentId }` : undefined
+      };
+    }
+  } catch (err) {
+    error('Failed to parse message history ids:', err);
+  }
+
+  return null;
+}
+
 export function formatMcpAuthenticationRequest(data: string): McpAuthenticationRequest | null {
   const cleaned = data.replaceAll(Tag.AuthenticationRequestStart, '').replaceAll(Tag.AuthenticationRequestEnd, '').trim();
 
@@ -254,37 +305,6 @@ export function formatTools(tools: ToolCall[], remaining: string): { tools: Tool
   };
 }
 
-export function formatFileMessages(principal: any, messages: Message[]): string {
-  const avatar = {
-    [Role.User]:      `👤 ${ principal?.name || 'user' }`,
-    [Role.Assistant]: '🤖 Liz',
-    [Role.System]:    '🛠️ Liz',
-  };
-
-  return (messages || []).map((msg) => {
-    const timestamp = msg.timestamp?.toLocaleTimeString([], {
-      hour:   '2-digit',
-      minute: '2-digit'
-    });
-
-    let body = msg.summaryContent ? `Summary: ${ msg.summaryContent }\n` : '';
-
-    body += msg.templateContent?.content?.message ? `${ msg.templateContent.content.message }\n` : '';
-    body += msg.messageContent ? `${ msg.messageContent }\n` : '';
-    body += msg.thinkingContent ? `${ msg.thinkingContent }\n` : '';
-
-    if (msg.contextContent?.length) {
-      body += `Context: ${ JSON.stringify(msg.contextContent) }\n`;
-    }
-
-    if (msg.tools?.length) {
-      body += printTools(msg.tools);
-    }
-
-    return `[${ timestamp }] [${ avatar[msg.role] }]: ${ body }`;
-  }).join('\n');
-}
-
 export function formatSourceLinks(links: SourceLinkItem[], value: string): SourceLinkItem[] {
   const cleanedLink = value.replaceAll(Tag.DocLinkStart, '').replaceAll(Tag.DocLinkEnd, '').trim();
 
@@ -423,6 +443,11 @@ export function buildMessageFromHistoryMessage(msg: HistoryChatMessage, agents:
    */
   const summaryContent = msg.labels?.[MessageLabelKey.Summary] || undefined;
 
+  /**
+   * Parsing bookmark
+   */
+  const bookmark = bookmarkFromHistoryMessage(msg);
+
   return {
     role:              msg.role === 'agent' ? Role.Assistant : Role.User,
     completed:         true,
@@ -438,5 +463,10 @@ export function buildMessageFromHistoryMessage(msg: HistoryChatMessage, agents:
     tools:             msg.tools || [],
     messageContent:    msg.message,
     timestamp:         new Date(msg.createdAt),
+    historyId:         msg.id,
+    historyParentId:   msg.parentId,
+    bookmark,
+    tags:              msg.tags,
+    labels:            msg.labels,
   };
 }
@@ -0,0 +1,107 @@
+import {
+  Frame, FrameType, Tag, WSProtocol, WSProtocolMetadata
+} from '../types';
+import { TagTokenizer } from './tag-parser';
+
+/**
+ * Latest version of the JSON protocol supported by the UI.
+ */
+export const FRAME_PROTOCOL_VERSION = 1;
+
+const FRAME_TYPES: string[] = [
+  FrameType.ChatMetadata,
+  FrameType.AgentMetadata,
+  FrameType.MessageStart,
+  FrameType.MessageEnd,
+  FrameType.ThinkingStart,
+  FrameType.ThinkingEnd,
+  FrameType.Text,
+  FrameType.Tools,
+  FrameType.McpResult,
+  FrameType.Confirmation,
+  FrameType.DocLink,
+  FrameType.AuthenticationRequest,
+  FrameType.TokenRefreshRequest,
+  FrameType.ChatError,
+  FrameType.AuthenticationError,
+  FrameType.Error,
+  FrameType.ProcessingTools,
+  FrameType.ProcessingSubagentStart,
+  FrameType.ProcessingSubagentEnd,
+];
+
+/**
+ * Returns true if the protocol announced in the chat metadata is a JSON protocol version supported by the UI.
+ */
+export function isFrameProtocol(protocol?: WSProtocolMetadata | null): boolean {
+  return protocol?.name === WSProtocol.Json && Number.isInteger(protocol.version) && protocol.version >= 1 && protocol.version <= FRAME_PROTOCOL_VERSION;
+}
+
+/**
+ * Parses a JSON frame: { type, payload, seq }
+ *
+ * The payload is serialized so that it can be handed to the `format*` helpers, like the Tag payloads.
+ * Tools are wrapped in their tags, as expected by `formatTools`.
+ *
+ * @param data Raw data received from the WebSocket
+ * @returns The parsed frame, null if the data is not a valid frame
+ */
+export function parseFrame(data: string): Frame | null {
+  if (!data?.startsWith('{')) {
+    return null;
+  }
+
+  let raw: any;
+
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  if (!raw || !FRAME_TYPES.includes(raw.type)) {
+    return null;
+  }
+
+  let payload = '';
+
+  if (typeof raw.payload === 'string') {
+    payload = raw.payload;
+  } else if (raw.payload !== undefined && raw.payload !== null) {
+    payload = JSON.stringify(raw.payload);
+  }
+
+  if (raw.type === FrameType.Tools) {
+    payload = `${ Tag.ToolsStart }${ payload }${ Tag.ToolsEnd }`;
+  }
+
+  return {
+    type:     raw.type,
+    payload,
+    seq:      Number.isInteger(raw.seq) ? raw.seq : undefined,
+    protocol: WSProtocol.Json,
+  };
+}
+
+/**
+ * Parses data received from the agent using the negotiated protocol.
+ *
+ * Data which is not a JSON frame is handed to the Tag tokenizer,
+ * so that agents not supporting the JSON protocol keep working.
+ *
+ * @param data Raw data received from the WebSocket
+ * @param protocol Protocol announced by the agent in the chat metadata
+ * @param tokenizer Tag tokenizer of the connection, buffering partial tags between calls
+ * @returns The parsed frames
+ */
+export function parseWSData(data: string, protocol?: WSProtocolMetadata | null, tokenizer = new TagTokenizer()): Frame[] {
+  if (isFrameProtocol(protocol)) {
+    const frame = parseFrame(data);
+
+    if (frame) {
+      return [frame];
+    }
+  }
+
+  return tokenizer.push(data);
+}
@@ -0,0 +1,254 @@
+import {
+  HistoryChat, HistoryChatGroup, HistoryChatGroupType, HistoryDateBucket, Message, Role
+} from '../types';
+import { VirtualRow } from './virtual';
+
+/**
+ * Maximum length of the generated chat titles, as for the titles entered by the user.
+ */
+export const CHAT_TITLE_MAX_LENGTH = 64;
+
+/**
+ * Returns the names of the folders used by the chats, sorted by name.
+ */
+export function chatFolders(chats: HistoryChat[]): string[] {
+  return [...new Set(chats.map((chat) => chat.folder?.trim()).filter((folder) => !!folder) as string[])]
+    .sort((a, b) => a.localeCompare(b));
+}
+
+const DATE_BUCKETS = [
+  HistoryDateBucket.Today,
+  HistoryDateBucket.LastWeek,
+  HistoryDateBucket.LastMonth,
+  HistoryDateBucket.Older,
+];
+
+/**
+ * Returns the date bucket of a chat: today, the last 7 days, the last 30 days or older.
+ */
+export function dateBucket(date: Date | string, now = new Date()): HistoryDateBucket {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const time = new Date(date).getTime();
+
+  if (time >= today) {
+    return HistoryDateBucket.Today;
+  }
+  if (time >= today - 6 * day) {
+    return HistoryDateBucket.LastWeek;
+  }
+  if (time >= today - 29 * day) {
+    return HistoryDateBucket.LastMonth;
+  }
+
+  return HistoryDateBucket.Older;
+}
+
+/**
+ * Groups the chats of the history in display order: the pinned chats, the folders sorted by name and the remaining chats, by date.
+ *
+ * Pinned chats are only listed in the pinned group, even if they belong to a folder.
+ * The order of the chats in each group is the order of the history.
+ *
+ * @param chats Chats of the history
+ * @param now Date used to compute the date buckets
+ * @returns The groups which contain at least one chat
+ */
+export function groupChats(chats: HistoryChat[], now = new Date()): HistoryChatGroup[] {
+  const pinned = chats.filter((chat) => !!chat.pinned);
+  const unpinned = chats.filter((chat) => !chat.pinned);
+
+  const groups: HistoryChatGroup[] = [];
+
+  if (pinned.length) {
+    groups.push({
+      type:  HistoryChatGroupType.Pinned,
+      chats: pinned
+    });
+  }
+
+  chatFolders(unpinned).forEach((folder) => {
+    groups.push({
+      type:  HistoryChatGroupType.Folder,
+      folder,
+      chats: unpinned.filter((chat) => chat.folder?.trim() === folder)
+    });
+  });
+
+  const previous = unpinned.filter((chat) => !chat.folder?.trim());
+
+  DATE_BUCKETS.forEach((bucket) => {
+    const bucketChats = previous.filter((chat) => dateBucket(chat.createdAt, now) === bucket);
+
+    if (bucketChats.length) {
+      groups.push({
+        type:  HistoryChatGroupType.Previous,
+        bucket,
+        chats: bucketChats
+      });
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Returns the chats created more than the given number of days ago.
+ */
+export function chatsOlderThan(chats: HistoryChat[], days: number, now = new Date()): HistoryChat[] {
+  const limit = now.getTime() - days * 24 * 60 * 60 * 1000;
+
+  return chats.filter((chat) => new Date(chat.createdAt).getTime() < limit);
+}
+
+/**
+ * Returns the key of a group, unique in the history.
+ */
+export function groupKey(group: Pick<HistoryChatGroup, 'type' | 'folder' | 'bucket'>): string {
+  switch (group.type) {
+  case HistoryChatGroupType.Folder:
+    return `folder-${ group.folder }`;
+  case HistoryChatGroupType.Previous:
+    return `previous-${ group.bucket || HistoryDateBucket.Today }`;
+  default:
+    return group.type;
+  }
+}
+
+/**
+ * A row of the virtualized history list: the header of a group or a chat.
+ */
+export interface HistoryRow extends VirtualRow {
+  group: HistoryChatGroup;
+  chat?: HistoryChat;
+  index?: number; // position of the chat in the list
+}
+
+/**
+ * Lays out the groups as rows of fixed height.
+ *
+ * @param groups Groups of the history, in display order
+ * @param heights.header Height of the group headers
+ * @param heights.chat Height of the chats
+ * @returns The rows and the height of the list
+ */
+export function historyRows(groups: HistoryChatGroup[], heights: { header: number, chat: number }): { rows: HistoryRow[], height: number } {
+  const rows: HistoryRow[] = [];
+
+  let top = 0;
+  let index = 0;
+
+  groups.forEach((group) => {
+    const key = groupKey(group);
+
+    rows.push({
+      key,
+      group,
+      top,
+      height: heights.header
+    });
+    top += heights.header;
+
+    group.chats.forEach((chat) => {
+      rows.push({
+        key:    `${ key }-${ chat.id }`,
+        group,
+        chat,
+        index:  index++,
+        top,
+        height: heights.chat
+      });
+      top += heights.chat;
+    });
+  });
+
+  return {
+    rows,
+    height: top
+  };
+}
+
+/**
+ * Returns the changes to apply to a chat when it is moved to a group.
+ *
+ * @param chat The chat to move
+ * @param group The target group
+ * @returns The payload to persist, null if the chat is already in the group
+ */
+export function moveChatPayload(chat: HistoryChat, group: Pick<HistoryChatGroup, 'type' | 'folder'>): Partial<HistoryChat> | null {
+  switch (group.type) {
+  case HistoryChatGroupType.Pinned:
+    return chat.pinned ? null : { pinned: true };
+  case HistoryChatGroupType.Folder:
+    return !chat.pinned && chat.folder?.trim() === group.folder ? null : {
+      folder: group.folder,
+      pinned: false
+    };
+  default:
+    return !chat.pinned && !chat.folder?.trim() ? null : {
+      folder: null,
+      pinned: false
+    };
+  }
+}
+
+/**
+ * Shortens the text to a single line, cutting at a word boundary.
+ */
+export function shortenTitle(text: string, maxLength = CHAT_TITLE_MAX_LENGTH): string {
+  const value = (text || '').replace(/\s+/g, ' ').trim();
+
+  if (value.length <= maxLength) {
+    return value;
+  }
+
+  const cut = value.slice(0, maxLength - 1);
+  const space = cut.lastIndexOf(' ');
+
+  return `${ (space > maxLength / 2 ? cut.slice(0, space) : cut).replace(/[\s.,;:!?-]+$/, '') }…`;
+}
+
+/**
+ * Returns the title of a chat from its first exchange.
+ *
+ * The summary label of the user's message is used first, e.g. the label of the prompts sent from the "Ask Liz" buttons,
+ * then the summary of the agent's reply. Chats without a summary are named after the user's prompt.
+ *
+ * @param messages Messages of the conversation
+ * @param agentSummary Summary sent by the agent at the end of its reply
+ * @returns The title, null if the first exchange is not completed
+ */
+export function chatTitle(messages: Message[], agentSummary?: string | null): string | null {
+  const userIndex = messages.findIndex((m) => m.role === Role.User);
+  const reply = userIndex >= 0 ? messages.slice(userIndex + 1).find((m) => m.role === Role.Assistant) : null;
+
+  if (!reply?.completed) {
+    return null;
+  }
+
+  const summary = messages[userIndex].summaryContent || agentSummary || reply.summaryContent || messages[userIndex].messageContent || '';
+
+  return shortenTitle(summary.replace(/<[^>]+>/g, '')) || null;
+}
+
+/**
+ * Returns true if the chat still has the name given by the agent, its first prompt, or a title derived from the prompt.
+ * Other names, e.g. given by the user, must not be replaced.
+ *
+ * @param name Name of the chat in the history
+ * @param messages Messages of the conversation
+ */
+export function isDefaultChatName(name: string | undefined, messages: Message[]): boolean {
+  const value = (name || '').split('\n')[0].trim();
+
+  if (!value) {
+    return true;
+  }
+
+  const prompt = messages.find((m) => m.role === Role.User);
+  const candidates = [prompt?.messageContent, prompt?.summaryContent]
+    .map((text) => (text || '').replace(/<[^>]+>/g, ''))
+    .filter((text) => !!text.trim());
+
+  return candidates.some((text) => value === text.split('\n')[0].trim() || value === shortenTitle(text));
+}
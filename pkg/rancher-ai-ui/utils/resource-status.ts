@@ -0,0 +1,165 @@
+/**
+ * Number of events shown in the resource-status tool.
+ */
+export const RECENT_EVENTS_LIMIT = 5;
+
+// Number of cards watching each resource
+const resourceWatchers = new Map<string, number>();
+
+// Conditions which are healthy when false
+const NEGATIVE_CONDITIONS = ['ReplicaFailure', 'DiskPressure', 'MemoryPressure', 'PIDPressure', 'NetworkUnavailable', 'Stalled'];
+
+export interface ReplicaCounts {
+  desired: number;
+  ready: number;
+  updated: number;
+  available: number;
+}
+
+export interface ResourceCondition {
+  type: string;
+  status: string;
+  reason?: string;
+  message?: string;
+  lastTransitionTime?: string;
+  healthy: boolean;
+}
+
+/**
+ * Returns the replica counts of a workload, null if the resource has no replicas.
+ * Daemon sets have no replicas, their counts are the number of scheduled pods.
+ */
+export function replicaCounts(resource: any): ReplicaCounts | null {
+  const spec = resource?.spec || {};
+  const status = resource?.status || {};
+
+  if (typeof status.desiredNumberScheduled === 'number') {
+    return {
+      desired:   status.desiredNumberScheduled,
+      ready:     status.numberReady || 0,
+      updated:   status.updatedNumberScheduled || 0,
+      available: status.numberAvailable || 0,
+    };
+  }
+
+  if (typeof spec.replicas !== 'number' && typeof status.replicas !== 'number') {
+    return null;
+  }
+
+  return {
+    desired:   spec.replicas ?? status.replicas,
+    ready:     status.readyReplicas || 0,
+    updated:   status.updatedReplicas || 0,
+    available: status.availableReplicas || 0,
+  };
+}
+
+/**
+ * Returns true while the replicas are not all updated and ready, e.g. after a scale or a patch.
+ */
+export function isRollingOut(counts: ReplicaCounts | null): boolean {
+  if (!counts) {
+    return false;
+  }
+
+  return counts.updated < counts.desired || counts.ready < counts.desired || counts.available < counts.desired;
+}
+
+/**
+ * Returns the percentage of the desired replicas which are updated and ready.
+ */
+export function rolloutProgress(counts: ReplicaCounts | null): number {
+  if (!counts?.desired) {
+    return 100;
+  }
+
+  return Math.min(100, Math.round((Math.min(counts.updated, counts.ready) / counts.desired) * 100));
+}
+
+export function resourceConditions(resource: any): ResourceCondition[] {
+  const conditions = resource?.status?.conditions;
+
+  if (!Array.isArray(conditions)) {
+    return [];
+  }
+
+  return conditions
+    .filter((c) => !!c?.type)
+    .map((c) => ({
+      type:               c.type,
+      status:             `${ c.status ?? '' }`,
+      reason:             c.reason,
+      message:            c.message,
+      lastTransitionTime: c.lastTransitionTime,
+      healthy:            NEGATIVE_CONDITIONS.includes(c.type) ? `${ c.status }` !== 'True' : `${ c.status }` === 'True',
+    }));
+}
+
+/**
+ * Returns the Kubernetes type of an event (Normal or Warning).
+ * The event models store it in _type, as type is the resource type.
+ */
+export function eventType(event: any): string {
+  return event?._type || (event?.type !== 'event' ? event?.type : '') || '';
+}
+
+function eventTime(event: any): number {
+  const time = event?.lastTimestamp || event?.eventTime || event?.metadata?.creationTimestamp;
+
+  return time ? new Date(time).getTime() || 0 : 0;
+}
+
+/**
+ * Returns the latest events of the resource.
+ *
+ * @param events Events of the resource, or of the resource name
+ * @param resource The resource the events are involving
+ * @param limit Maximum number of events
+ */
+export function recentEvents(events: any[], resource: any, limit = RECENT_EVENTS_LIMIT): any[] {
+  const uid = resource?.metadata?.uid;
+  const name = resource?.metadata?.name;
+  const namespace = resource?.metadata?.namespace;
+
+  return (events || [])
+    .filter((e) => {
+      const involved = e?.involvedObject || {};
+
+      if (uid && involved.uid) {
+        return involved.uid === uid;
+      }
+
+      return !!name && involved.name === name && (involved.namespace || '') === (namespace || '') && (!resource?.kind || involved.kind === resource.kind);
+    })
+    .sort((a, b) => eventTime(b) - eventTime(a))
+    .slice(0, limit);
+}
+
+/**
+ * Counts the cards watching a resource. Cards of the same resource share its watch.
+ *
+ * @param key Store, type and id of the resource
+ */
+export function addResourceWatcher(key: string) {
+  resourceWatchers.set(key, (resourceWatchers.get(key) || 0) + 1);
+}
+
+/**
+ * Removes a card watching a resource.
+ *
+ * @param key Store, type and id of the resource
+ * @returns True if no card watches the resource anymore, i.e. the watch can be stopped
+ */
+export function removeResourceWatcher(key: string): boolean {
+  const count = (resourceWatchers.get(key) || 0) - 1;
+
+  if (count > 0) {
+    resourceWatchers.set(key, count);
+
+    return false;
+  }
+
+  resourceWatchers.delete(key);
+
+  return true;
+}
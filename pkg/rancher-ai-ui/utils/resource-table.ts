@@ -0,0 +1,99 @@
+import { ResourceTableColumn, ResourceTableRow } from '../components/tools/types';
+
+const NAME_COLUMN = 'name';
+
+/**
+ * Returns the columns of a resource-table tool call.
+ * Columns can be given as names or as objects, the name column is always shown first as it links to the resources.
+ *
+ * @param columns Columns of the tool input
+ */
+export function tableColumns(columns: unknown): ResourceTableColumn[] {
+  const out = (Array.isArray(columns) ? columns : [])
+    .map((column) => (typeof column === 'string' ? { name: column } : column))
+    .filter((column) => typeof column?.name === 'string' && !!column.name.trim());
+
+  const unique = out.filter((column, index) => out.findIndex((c) => c.name === column.name) === index);
+
+  const nameColumn = unique.find((column) => column.name === NAME_COLUMN) || { name: NAME_COLUMN };
+
+  return [nameColumn, ...unique.filter((column) => column.name !== NAME_COLUMN)];
+}
+
+/**
+ * Returns the rows of a resource-table tool call, the rows without a name are skipped.
+ *
+ * @param rows Rows of the tool input
+ */
+export function tableRows(rows: unknown): ResourceTableRow[] {
+  return (Array.isArray(rows) ? rows : [])
+    .filter((row) => !!row && typeof row === 'object' && typeof row.name === 'string' && !!row.name.trim());
+}
+
+export function rowKey(row: ResourceTableRow): string {
+  return row.namespace ? `${ row.namespace }/${ row.name }` : row.name;
+}
+
+/**
+ * Returns the text of a cell.
+ */
+export function cellValue(row: ResourceTableRow, column: ResourceTableColumn): string {
+  const value = row[column.name];
+
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => (typeof v === 'object' ? JSON.stringify(v) : `${ v }`)).join(', ');
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return `${ value }`;
+}
+
+/**
+ * Returns the rows with a cell containing the text, case insensitive.
+ */
+export function filterRows(rows: ResourceTableRow[], columns: ResourceTableColumn[], text: string): ResourceTableRow[] {
+  const value = (text || '').trim().toLowerCase();
+
+  if (!value) {
+    return rows;
+  }
+
+  return rows.filter((row) => columns.some((column) => cellValue(row, column).toLowerCase().includes(value)) ||
+    (row.namespace || '').toLowerCase().includes(value));
+}
+
+/**
+ * Returns a sorted copy of the rows.
+ * Numeric values are compared as numbers (e.g. restarts, replicas), the others as text with numeric collation.
+ */
+export function sortRows(rows: ResourceTableRow[], column: ResourceTableColumn | null, descending = false): ResourceTableRow[] {
+  if (!column) {
+    return [...rows];
+  }
+
+  const direction = descending ? -1 : 1;
+
+  return [...rows].sort((a, b) => {
+    const valueA = cellValue(a, column);
+    const valueB = cellValue(b, column);
+
+    const numberA = Number(valueA);
+    const numberB = Number(valueB);
+
+    if (valueA !== '' && valueB !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+      return (numberA - numberB) * direction;
+    }
+
+    return valueA.localeCompare(valueB, undefined, {
+      numeric:     true,
+      sensitivity: 'base'
+    }) * direction;
+  });
+}
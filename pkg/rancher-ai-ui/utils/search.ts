@@ -0,0 +1,107 @@
+import { HistoryChat, HistorySearchMatch, HistorySearchResult, Message } from '../types';
+
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Splits a query into lowercase terms.
+ */
+export function searchTerms(query: string): string[] {
+  return (query || '').toLowerCase().split(/\s+/).filter((term) => !!term);
+}
+
+/**
+ * Returns true if the text contains all the terms.
+ */
+export function matchesTerms(text: string, terms: string[]): boolean {
+  const value = (text || '').toLowerCase();
+
+  return terms.length > 0 && terms.every((term) => value.includes(term));
+}
+
+/**
+ * Returns the part of the text around the first matching term, on a single line.
+ */
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): string {
+  const value = (text || '').replace(/\s+/g, ' ').trim();
+  const lower = value.toLowerCase();
+  const indexes = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+  const index = indexes.length ? Math.min(...indexes) : 0;
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(value.length, index + radius);
+
+  return `${ start > 0 ? '…' : '' }${ value.slice(start, end).trim() }${ end < value.length ? '…' : '' }`;
+}
+
+/**
+ * Escapes the text and wraps the matching terms in <mark> tags.
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  if (!terms.length) {
+    return escape(text || '');
+  }
+
+  const pattern = new RegExp(`(${ terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|') })`, 'gi');
+
+  return (text || '')
+    .split(pattern)
+    .map((part, i) => (i % 2 ? `<mark>${ escape(part) }</mark>` : escape(part)))
+    .join('');
+}
+
+function messageText(message: Message): string {
+  return [message.summaryContent, message.messageContent].filter((text) => !!text).join(' ');
+}
+
+/**
+ * Searches the chat names and the message bodies, client side.
+ *
+ * A chat matches if its name or one of its messages contains all the terms of the query.
+ *
+ * @param query Search query
+ * @param chats Chats of the history
+ * @param messages Messages of the chats, keyed by chat id
+ * @returns The matching chats, in the order of the history
+ */
+export function searchChats(query: string, chats: HistoryChat[], messages: Record<string, Message[]>): HistorySearchResult[] {
+  const terms = searchTerms(query);
+
+  if (!terms.length) {
+    return [];
+  }
+
+  return chats.reduce((acc, chat) => {
+    const matches: HistorySearchMatch[] = [];
+
+    if (matchesTerms(chat.name || '', terms)) {
+      matches.push({ snippet: buildSnippet(chat.name || '', terms) });
+    }
+
+    (messages[chat.id] || []).forEach((message, messageIndex) => {
+      const text = messageText(message);
+
+      if (matchesTerms(text, terms)) {
+        matches.push({
+          messageId: message.historyId,
+          messageIndex,
+          snippet:   buildSnippet(text, terms),
+        });
+      }
+    });
+
+    if (matches.length) {
+      acc.push({
+        chat,
+        matches
+      });
+    }
+
+    return acc;
+  }, [] as HistorySearchResult[]);
+}
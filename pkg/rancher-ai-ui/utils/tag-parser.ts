@@ -0,0 +1,168 @@
+import { Frame, FrameType, Tag, WSProtocol } from '../types';
+
+/**
+ * Tags wrapping a whole frame, mapped to their end tag and frame type.
+ */
+const WRAPPING_TAGS: Record<string, [Tag, FrameType]> = {
+  [Tag.ChatMetadataStart]:               [Tag.ChatMetadataEnd, FrameType.ChatMetadata],
+  [Tag.ChatErrorStart]:                  [Tag.ChatErrorEnd, FrameType.ChatError],
+  [Tag.ProcessingSubagentInitStart]:     [Tag.ProcessingSubagentInitEnd, FrameType.ProcessingSubagentStart],
+  [Tag.ProcessingSubagentCompleteStart]: [Tag.ProcessingSubagentCompleteEnd, FrameType.ProcessingSubagentEnd],
+  [Tag.AgentMetadataStart]:              [Tag.AgentMetadataEnd, FrameType.AgentMetadata],
+  [Tag.AuthenticationRequestStart]:      [Tag.AuthenticationRequestEnd, FrameType.AuthenticationRequest],
+  [Tag.TokenRefreshRequestStart]:        [Tag.TokenRefreshRequestEnd, FrameType.TokenRefreshRequest],
+  [Tag.ToolsStart]:                      [Tag.ToolsEnd, FrameType.Tools],
+  [Tag.McpResultStart]:                  [Tag.McpResultEnd, FrameType.McpResult],
+  [Tag.ConfirmationStart]:               [Tag.ConfirmationEnd, FrameType.Confirmation],
+  [Tag.DocLinkStart]:                    [Tag.DocLinkEnd, FrameType.DocLink],
+  [Tag.ErrorStart]:                      [Tag.ErrorEnd, FrameType.Error],
+  [Tag.AuthenticationErrorStart]:        [Tag.AuthenticationErrorEnd, FrameType.AuthenticationError],
+};
+
+/**
+ * Tags sent alone.
+ */
+const STANDALONE_TAGS: Record<string, FrameType> = {
+  [Tag.MessageStart]:    FrameType.MessageStart,
+  [Tag.MessageEnd]:      FrameType.MessageEnd,
+  [Tag.ThinkingStart]:   FrameType.ThinkingStart,
+  [Tag.ThinkingEnd]:     FrameType.ThinkingEnd,
+  [Tag.ProcessingTools]: FrameType.ProcessingTools,
+};
+
+const TOKENS = [...Object.keys(STANDALONE_TAGS), ...Object.keys(WRAPPING_TAGS)];
+
+function toFrame(type: FrameType, payload: string): Frame {
+  return {
+    type,
+    payload,
+    protocol: WSProtocol.Tag,
+  };
+}
+
+/**
+ * Stateful tokenizer for the data received from agents using the Tag protocol (legacy).
+ *
+ * Tags can be split across several WebSocket messages: partial tags and the content of
+ * wrapping tags are buffered until complete, then emitted as a single frame.
+ * The payload of a wrapping tag includes its tags, as expected by the `format*` helpers.
+ * Anything outside tags is emitted as Text as soon as it is received.
+ */
+export class TagTokenizer {
+  private buffer = '';
+
+  // Start tag of the wrapping tag being buffered
+  private openTag: string | null = null;
+
+  /**
+   * Consumes the data received from the WebSocket.
+   *
+   * @param data Raw data received from the WebSocket
+   * @returns The frames completed by the data, in order
+   */
+  push(data: string): Frame[] {
+    const frames: Frame[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        frames.push(toFrame(FrameType.Text, text));
+        text = '';
+      }
+    };
+
+    this.buffer += data ?? '';
+
+    while (this.buffer) {
+      if (this.openTag) {
+        const [endTag, type] = WRAPPING_TAGS[this.openTag];
+        const index = this.buffer.indexOf(endTag);
+
+        if (index === -1) {
+          const messageEnd = this.buffer.indexOf(Tag.MessageEnd);
+
+          // The message ended without closing the tag: it was not a tag
+          if (messageEnd !== -1) {
+            text += `${ this.openTag }${ this.buffer.slice(0, messageEnd) }`;
+
+            this.buffer = this.buffer.slice(messageEnd);
+            this.openTag = null;
+
+            continue;
+          }
+
+          // Wait for the end tag
+          break;
+        }
+
+        const end = index + endTag.length;
+
+        frames.push(toFrame(type, `${ this.openTag }${ this.buffer.slice(0, end) }`));
+
+        this.buffer = this.buffer.slice(end);
+        this.openTag = null;
+
+        continue;
+      }
+
+      const index = this.buffer.indexOf('<');
+
+      if (index === -1) {
+        text += this.buffer;
+        this.buffer = '';
+
+        break;
+      }
+
+      text += this.buffer.slice(0, index);
+
+      const rest = this.buffer.slice(index);
+      const token = TOKENS.find((t) => rest.startsWith(t));
+
+      if (token) {
+        flushText();
+
+        this.buffer = rest.slice(token.length);
+
+        if (STANDALONE_TAGS[token]) {
+          frames.push(toFrame(STANDALONE_TAGS[token], token));
+        } else {
+          this.openTag = token;
+        }
+
+        continue;
+      }
+
+      // Partial tag, wait for more data
+      if (TOKENS.some((t) => t.startsWith(rest))) {
+        this.buffer = rest;
+
+        break;
+      }
+
+      text += '<';
+      this.buffer = rest.slice(1);
+    }
+
+    flushText();
+
+    return frames;
+  }
+
+  /**
+   * Emits the buffered data as Text, when the connection closes in the middle of a tag.
+   * Tags still incomplete when the message ends are emitted as Text by `push`.
+   */
+  flush(): Frame[] {
+    const data = `${ this.openTag || '' }${ this.buffer }`;
+
+    this.reset();
+
+    return data ? [toFrame(FrameType.Text, data)] : [];
+  }
+
+  reset() {
+    this.buffer = '';
+    this.openTag = null;
+  }
+}
@@ -1,3 +1,4 @@
+import { ToolCall, ToolCallError, ToolCallErrorReason, UITool } from '../types';
 import { warn } from './log';
 
 /**
@@ -25,4 +26,128 @@ export function validateActionResource(value: any): boolean {
   }
 
   return true;
-}
\ No newline at end of file
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+  case 'string':
+    return typeof value === 'string';
+  case 'number':
+    return typeof value === 'number' && Number.isFinite(value);
+  case 'integer':
+    return Number.isInteger(value);
+  case 'boolean':
+    return typeof value === 'boolean';
+  case 'object':
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  case 'array':
+    return Array.isArray(value);
+  default:
+    return true;
+  }
+}
+
+// Unknown tools already reported, the validation runs on every render of the tool calls
+const unknownTools = new Set<string>();
+
+/**
+ * Utility function to validate the input of a tool call against the schema of the tool (ui-tools.json format).
+ *
+ * Properties are required if marked with `required: true` or listed in the schema `required` array,
+ * or if the selected value of an enum property requires them (`metadata.enum`).
+ *
+ * Unknown tools, e.g. from old chats or from extensions which are not loaded, are not validated: a warning is logged once per tool name.
+ *
+ * @param tool The tool call
+ * @param definition The tool definition, undefined if the tool is unknown
+ * @returns The errors, empty if the tool call is valid or the tool is unknown
+ */
+export function validateToolCall(tool: ToolCall, definition?: UITool): ToolCallError[] {
+  if (!definition) {
+    if (!unknownTools.has(tool?.toolName)) {
+      unknownTools.add(tool?.toolName);
+      warn(`Unknown tool: ${ tool?.toolName }`);
+    }
+
+    return [];
+  }
+
+  const input = tool?.input;
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return [{ reason: ToolCallErrorReason.InvalidInput }];
+  }
+
+  const properties: Record<string, any> = definition.schema?.properties || {};
+  const required = new Set<string>([
+    ...(Array.isArray(definition.schema?.required) ? definition.schema.required : []),
+    ...Object.keys(properties).filter((field) => properties[field]?.required === true),
+  ]);
+
+  // Fields required by the selected enum values
+  Object.entries(definition.metadata?.enum || {}).forEach(([field, values]: [string, any]) => {
+    (values?.[input[field]]?.requires || []).forEach((dependency: string) => required.add(dependency));
+  });
+
+  const errors: ToolCallError[] = [];
+
+  required.forEach((field) => {
+    if (input[field] === undefined || input[field] === null || input[field] === '') {
+      errors.push({
+        reason: ToolCallErrorReason.Required,
+        field
+      });
+    }
+  });
+
+  Object.entries(properties).forEach(([field, property]) => {
+    const value = input[field];
+
+    if (value === undefined || value === null || !property) {
+      return;
+    }
+
+    if (property.type && !matchesType(value, property.type)) {
+      errors.push({
+        reason:   ToolCallErrorReason.Type,
+        field,
+        expected: property.type
+      });
+
+      return;
+    }
+
+    if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+      errors.push({
+        reason:   ToolCallErrorReason.Enum,
+        field,
+        expected: property.enum.join(', ')
+      });
+    }
+
+    if (typeof value === 'string' && typeof property.maxLength === 'number' && value.length > property.maxLength) {
+      errors.push({
+        reason:   ToolCallErrorReason.MaxLength,
+        field,
+        expected: `${ property.maxLength }`
+      });
+    }
+
+    if (typeof value === 'string' && typeof property.minLength === 'number' && value.length < property.minLength) {
+      errors.push({
+        reason:   ToolCallErrorReason.MinLength,
+        field,
+        expected: `${ property.minLength }`
+      });
+    }
+  });
+
+  if (errors.length) {
+    warn(`Invalid input for tool '${ definition.name }':`, {
+      input,
+      errors
+    });
+  }
+
+  return errors;
+}
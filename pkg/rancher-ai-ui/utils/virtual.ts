@@ -0,0 +1,66 @@
+/**
+ * A row of a virtualized list, with its position in the list.
+ */
+export interface VirtualRow {
+  key: string;
+  top: number;
+  height: number;
+}
+
+/**
+ * Lays out rows of variable height, separated by a gap.
+ *
+ * Rows which were not rendered yet have the estimated height.
+ *
+ * @param keys Keys of the rows, in display order
+ * @param heights Measured heights, keyed by row
+ * @param estimatedHeight Height of the rows which were not measured
+ * @param gap Space between two rows
+ * @returns The rows and the height of the list
+ */
+export function layoutRows(keys: string[], heights: Record<string, number>, estimatedHeight: number, gap = 0): { rows: VirtualRow[], height: number } {
+  let top = 0;
+
+  const rows = keys.map((key) => {
+    const height = heights[key] ?? estimatedHeight;
+    const row = {
+      key,
+      top,
+      height
+    };
+
+    top += height + gap;
+
+    return row;
+  });
+
+  return {
+    rows,
+    height: rows.length ? top - gap : 0
+  };
+}
+
+/**
+ * Returns the rows visible in the viewport, plus a few rows before and after it.
+ *
+ * @param rows Rows of the list, sorted by position
+ * @param scrollTop Scroll position of the list
+ * @param viewportHeight Height of the viewport
+ * @param overscan Number of rows rendered outside the viewport, on each side
+ */
+export function visibleRows<T extends Pick<VirtualRow, 'top' | 'height'>>(rows: T[], scrollTop: number, viewportHeight: number, overscan = 5): T[] {
+  const first = rows.findIndex((row) => row.top + row.height > scrollTop);
+
+  if (first < 0) {
+    return [];
+  }
+
+  const bottom = scrollTop + viewportHeight;
+  let last = first;
+
+  while (last + 1 < rows.length && rows[last + 1].top < bottom) {
+    last++;
+  }
+
+  return rows.slice(Math.max(0, first - overscan), last + overscan + 1);
+}
@@ -1,5 +1,33 @@
+import { HeartbeatConfig } from '../types';
+
 export const MANUAL_DISCONNECT = [1000, '__MANUAL_DISCONNECT__'] as const;
+export const HEARTBEAT_TIMEOUT_DISCONNECT = [4000, '__HEARTBEAT_TIMEOUT__'] as const;
+
+export const RECONNECT_MAX_ATTEMPTS = 6;
+export const RECONNECT_BASE_DELAY = 1000;
+export const RECONNECT_MAX_DELAY = 30000;
+
+export const HEARTBEAT_DEFAULTS: HeartbeatConfig = {
+  interval:         20000,
+  maxMissed:        2,
+  closeAfterMissed: 4,
+};
 
 export function isManualDisconnect(event: CloseEvent): boolean {
   return event.code === MANUAL_DISCONNECT[0] && event.reason === MANUAL_DISCONNECT[1];
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the delay (ms) to wait before the given reconnection attempt.
+ *
+ * Exponential backoff capped at RECONNECT_MAX_DELAY, with half of the delay randomized (jitter)
+ * so that many clients dropped by the same proxy don't reconnect all at once.
+ *
+ * @param attempt Zero-based index of the reconnection attempt
+ * @param random Random number generator in [0, 1)
+ */
+export function reconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * (2 ** Math.max(0, attempt)));
+
+  return Math.round((delay / 2) + (random() * delay / 2));
+}